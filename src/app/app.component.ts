@@ -1,10 +1,11 @@
 import { Component } from '@angular/core';
 import { RouterOutlet } from '@angular/router';
+import { SessionExpiredDialogComponent } from './shared/components/session-expired-dialog/session-expired-dialog.component';
 
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [RouterOutlet],
-  template: '<router-outlet></router-outlet>'
+  imports: [RouterOutlet, SessionExpiredDialogComponent],
+  template: '<router-outlet></router-outlet><app-session-expired-dialog></app-session-expired-dialog>'
 })
 export class AppComponent {}
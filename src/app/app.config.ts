@@ -6,6 +6,7 @@ import { provideAnimations } from '@angular/platform-browser/animations';
 import { routes } from './app.routes';
 import { AuthInterceptor } from './core/interceptors/auth.interceptor';
 import { CacheInterceptor } from './core/interceptors/cache.interceptor';
+import { MockBackendInterceptor } from './core/interceptors/mock-backend.interceptor';
 
 // Suppress Angular animation warnings for non-animatable properties
 // Also suppress routine Socket.IO disconnect warnings during reconnection
@@ -59,7 +60,8 @@ window.addEventListener('unhandledrejection', (event) => {
 export const appConfig: ApplicationConfig = {
   providers: [
     provideRouter(routes),
-    provideHttpClient(withInterceptors([CacheInterceptor, AuthInterceptor])),
+    // MockBackendInterceptor is a pass-through unless mock mode is on (see mock-backend.config.ts)
+    provideHttpClient(withInterceptors([CacheInterceptor, AuthInterceptor, MockBackendInterceptor])),
     provideAnimations()
   ]
 };
@@ -1,5 +1,6 @@
 import { Routes } from '@angular/router';
 import { authGuard } from './core/guards/auth.guard';
+import { permissionGuard } from './core/guards/permission.guard';
 
 export const routes: Routes = [
   {
@@ -15,9 +16,29 @@ export const routes: Routes = [
         path: '',
         loadComponent: () => import('./features/dashboard/dashboard.component').then(m => m.DashboardComponent)
       },
+      {
+        // Wall display: the dashboard without the idle sign-out (see idle.config.ts)
+        path: 'wall',
+        data: { kiosk: true },
+        loadComponent: () => import('./features/dashboard/dashboard.component').then(m => m.DashboardComponent)
+      },
       {
         path: 'entries',
+        canActivate: [permissionGuard],
+        data: { permission: 'entries.view' },
         loadComponent: () => import('./features/entries/entries.component').then(m => m.EntriesComponent)
+      },
+      {
+        path: 'alerts',
+        canActivate: [permissionGuard],
+        data: { permission: 'alerts.view' },
+        loadComponent: () => import('./features/alerts/alerts.component').then(m => m.AlertsComponent)
+      },
+      {
+        path: 'alerts/rules',
+        canActivate: [permissionGuard],
+        data: { permission: 'alertRules.manage' },
+        loadComponent: () => import('./features/alert-rules/alert-rules.component').then(m => m.AlertRulesComponent)
       }
     ]
   },
@@ -0,0 +1,51 @@
+import { AlertSeverity } from '../models/socket.models';
+
+// ============================================
+// ALARM CONFIGURATION
+// Used by AlarmService: desktop notifications, alarm sounds, and the tab
+// title / favicon flashing for new alerts. Operators change the settings in
+// the bell's alarm settings; they are kept per browser (ks_alarm_settings).
+//
+// Desktop notifications are opt-in (the browser asks for permission).
+// Quiet hours silence info and warning alerts; critical alerts always sound
+// and repeat every criticalRepeatSeconds until acknowledged.
+// With several tabs open, only one of them sounds and notifies.
+// ============================================
+
+export type AlarmSound = 'none' | 'chime' | 'beep' | 'siren';
+
+export interface SeverityAlarm {
+  desktop: boolean;   // Show a desktop notification (when the tab isn't visible)
+  sound: AlarmSound;
+}
+
+export interface AlarmSettings {
+  severities: Record<AlertSeverity, SeverityAlarm>;
+  volume: number;                 // 0..1
+  quietHours: {
+    enabled: boolean;
+    from: string;                 // "HH:mm", viewer's local time
+    to: string;                   // May be earlier than from (overnight)
+  };
+  criticalRepeatSeconds: number;  // 0 = don't repeat
+}
+
+export const ALARM_SETTINGS_KEY = 'ks_alarm_settings';
+
+export const DEFAULT_ALARM_SETTINGS: AlarmSettings = {
+  severities: {
+    info: { desktop: false, sound: 'none' },
+    warning: { desktop: true, sound: 'chime' },
+    critical: { desktop: true, sound: 'siren' }
+  },
+  volume: 0.6,
+  quietHours: { enabled: false, from: '22:00', to: '07:00' },
+  criticalRepeatSeconds: 30
+};
+
+// Tab title / favicon alternate this often while flashing
+export const ALARM_FLASH_INTERVAL_MS = 1000;
+
+// Favicon shown on the "off" beat of the flash (red dot)
+export const ALARM_FAVICON =
+  'data:image/svg+xml,' + encodeURIComponent('<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 32 32"><circle cx="16" cy="16" r="14" fill="#dc2626"/></svg>');
@@ -0,0 +1,81 @@
+import { AlertRule } from '../models/alert-rule.models';
+
+// ============================================
+// ALERT RULES CONFIGURATION
+// Used by AlertRuleService (rule storage) and AlertRuleEvaluatorService.
+// Rules are kept per browser in localStorage (ks_alert_rules) and edited on
+// the Alerts > Rules page (alertRules.manage permission).
+//
+// Occupancy rules run on every live_occupancy event; footfall and dwell
+// rules query the analytics API every RULE_ANALYTICS_INTERVAL_MS. Only one
+// tab evaluates; its rule state (cooldowns, hysteresis, alerts raised) is
+// kept in localStorage (ks_alert_rule_state) so a reload or the next tab
+// carries on where it left off (sign-out clears it).
+// ============================================
+
+export const ALERT_RULES_STORAGE_KEY = 'ks_alert_rules';
+export const ALERT_RULE_STATE_KEY = 'ks_alert_rule_state';
+
+// How often footfall / dwell rules are re-evaluated
+export const RULE_ANALYTICS_INTERVAL_MS = 5 * 60 * 1000;
+
+// Dwell rules look at visitors who entered within this window
+export const RULE_DWELL_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+// Entry-exit records fetched per request of a dwell evaluation, and the most
+// pages followed (a bound for extreme sites - 10,000 visits a day)
+export const RULE_DWELL_PAGE_SIZE = 200;
+export const RULE_DWELL_MAX_PAGES = 50;
+
+// Upper bound of footfallVsBaseline's baselineDays (one request per day and hour)
+export const RULE_MAX_BASELINE_DAYS = 28;
+
+// Examples offered until the user saves rules of their own - disabled, since
+// capacity and thresholds depend on the venue
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: 'default-occupancy',
+    name: 'Occupancy above 80% of capacity',
+    enabled: false,
+    siteId: null,
+    metric: 'occupancyPercent',
+    comparator: 'above',
+    threshold: 80,
+    capacity: null,
+    baselineDays: 7,
+    forMinutes: 5,
+    cooldownMinutes: 30,
+    hysteresis: 5,
+    severity: 'warning'
+  },
+  {
+    id: 'default-footfall',
+    name: 'Footfall this hour 50% below usual',
+    enabled: false,
+    siteId: null,
+    metric: 'footfallVsBaseline',
+    comparator: 'below',
+    threshold: -50,
+    capacity: null,
+    baselineDays: 7,
+    forMinutes: 0,
+    cooldownMinutes: 60,
+    hysteresis: 10,
+    severity: 'info'
+  },
+  {
+    id: 'default-dwell',
+    name: 'Visitor inside for over 3 hours',
+    enabled: false,
+    siteId: null,
+    metric: 'visitorDwell',
+    comparator: 'above',
+    threshold: 180,
+    capacity: null,
+    baselineDays: 7,
+    forMinutes: 0,
+    cooldownMinutes: 0,
+    hysteresis: 0,
+    severity: 'warning'
+  }
+];
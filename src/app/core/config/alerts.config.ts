@@ -0,0 +1,42 @@
+// ============================================
+// ALERT HISTORY CONFIGURATION
+// Used by NotificationService and AlertStoreService. Every alert is kept in
+// IndexedDB with its read / acknowledged state, so history survives reloads
+// and sign-outs (acknowledgements stay attributable across shifts).
+//
+// The bell shows the newest MAX_ALERTS of the selected site; the history kept
+// is bounded by both limits below, whichever is hit first.
+// A terminal can override them in localStorage:
+//   ks_alert_retention_days  = '30'
+//   ks_alert_retention_count = '10000'
+// ============================================
+
+// Alerts listed in the bell dropdown (per site)
+export const MAX_ALERTS = 50;
+
+// Alerts older than this are dropped from history
+export const ALERT_RETENTION_DAYS = 7;
+
+// At most this many alerts are kept (all sites together), oldest dropped first
+export const ALERT_RETENTION_COUNT = 5000;
+
+const RETENTION_DAYS_KEY = 'ks_alert_retention_days';
+const RETENTION_COUNT_KEY = 'ks_alert_retention_count';
+
+/**
+ * Effective retention - per-terminal overrides win; invalid values fall back to the defaults
+ */
+export function alertRetention(): { maxAgeMs: number; maxCount: number } {
+  const days = positiveNumber(localStorage.getItem(RETENTION_DAYS_KEY)) ?? ALERT_RETENTION_DAYS;
+  const count = positiveNumber(localStorage.getItem(RETENTION_COUNT_KEY)) ?? ALERT_RETENTION_COUNT;
+  return {
+    maxAgeMs: days * 24 * 60 * 60 * 1000,
+    // Never keep less than the bell shows
+    maxCount: Math.max(Math.floor(count), MAX_ALERTS)
+  };
+}
+
+function positiveNumber(value: string | null): number | null {
+  const n = value === null ? NaN : Number(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
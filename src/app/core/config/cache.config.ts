@@ -0,0 +1,45 @@
+// ============================================
+// HTTP CACHE CONFIGURATION
+// Used by CacheInterceptor. Endpoints are matched by URL substring,
+// first match wins. Endpoints without a rule are never cached.
+//
+// ttlMs      - response is served from cache without a network request
+// staleMs    - after ttlMs, response may still be shown while a background
+//              refresh runs (stale-while-revalidate); 0 disables
+// lineageIgnores - body fields ignored when looking for stale data, so a
+//              "today up to now" request finds the previous "today up to then"
+// persistMs  - latest response per lineage is also saved to IndexedDB and may be
+//              shown (as stale) this long after a reload or while offline; 0 disables
+// ============================================
+
+export interface CacheRule {
+  match: string;
+  ttlMs: number;
+  staleMs: number;
+  lineageIgnores: string[];
+  persistMs: number;
+}
+
+export const CACHE_RULES: CacheRule[] = [
+  // Entry-exit is time-sensitive (last 30 minutes) - never fresh from cache,
+  // but the last page seen is shown while the (slow) backend answers
+  { match: '/api/analytics/entry-exit', ttlMs: 0, staleMs: 1800000, lineageIgnores: ['fromUtc', 'toUtc'], persistMs: 86400000 },
+  // Summary card numbers move with every entry/exit - keep short
+  { match: '/api/analytics/footfall', ttlMs: 60000, staleMs: 1800000, lineageIgnores: ['toUtc'], persistMs: 86400000 },
+  { match: '/api/analytics/dwell', ttlMs: 60000, staleMs: 1800000, lineageIgnores: ['toUtc'], persistMs: 86400000 },
+  // Chart buckets are heavy to compute and change slowly
+  { match: '/api/analytics/occupancy', ttlMs: 120000, staleMs: 1800000, lineageIgnores: ['toUtc'], persistMs: 86400000 },
+  { match: '/api/analytics/demographics', ttlMs: 120000, staleMs: 1800000, lineageIgnores: ['toUtc'], persistMs: 86400000 },
+  // Site list rarely changes during a session
+  { match: '/api/sites', ttlMs: 600000, staleMs: 86400000, lineageIgnores: [], persistMs: 604800000 }
+];
+
+// Upper bound on cached responses; least recently used entries are evicted first
+export const MAX_CACHE_ENTRIES = 100;
+
+// Background refreshes give up after this long (the stale response stays on screen)
+export const REVALIDATE_TIMEOUT_MS = 60000;
+
+// IndexedDB budget for persisted responses; least recently used are evicted first
+export const PERSISTENT_CACHE_MAX_ENTRIES = 200;
+export const PERSISTENT_CACHE_MAX_BYTES = 10 * 1024 * 1024;
@@ -0,0 +1,25 @@
+// ============================================
+// CROSS-TAB SYNC CONFIGURATION
+// Used by CrossTabSyncService. Tabs of the same origin share localStorage
+// (token, site, user info); these settings control how they tell each
+// other about logout, login and site switches.
+// ============================================
+
+// BroadcastChannel name (and localStorage key of the storage-event fallback)
+export const CROSS_TAB_CHANNEL = 'ks_sync';
+
+// Web Lock held by the tab that owns the shared socket connection
+export const SOCKET_LEADER_LOCK = 'ks_socket_leader';
+
+// Web Lock of the tab that evaluates alert rules and sounds alarms
+// (AlertRuleEvaluatorService, AlarmService) - rule alerts are raised in that tab
+export const ALERTS_LEADER_LOCK = 'ks_alerts_leader';
+
+// Web Lock held (or queued for) by every tab showing a kiosk route (wall display) -
+// an idle sign-out elsewhere keeps the shared sign-in while one is open (IdleService)
+export const KIOSK_LOCK = 'ks_kiosk';
+
+// One socket for all tabs: the lock holder connects and relays every event to
+// the other tabs; when it closes, the next waiting tab takes over.
+// Off by default - each tab then opens its own connection as before.
+export const SHARE_SOCKET_ACROSS_TABS = false;
@@ -0,0 +1,44 @@
+import { environment } from '../../../environments/environment';
+
+// ============================================
+// DEVELOPER TOOLS CONFIGURATION
+// Used by SocketRecorderService and the socket devtools panel in the layout.
+//
+// The panel is only ever shown in non-production builds: recordings hold person
+// names, and a replay feeds fabricated alerts into the app. ?devtools=0 hides it
+// (remembered in localStorage ks_devtools; ?devtools=1 shows it again).
+// ============================================
+
+// Recording stops by itself after this many events (~a busy hour of alerts)
+export const RECORDER_MAX_EVENTS = 20000;
+
+// Speeds offered by the replayer
+export const REPLAY_SPEEDS = [1, 10, 100] as const;
+export type ReplaySpeed = typeof REPLAY_SPEEDS[number];
+
+// Version of the downloadable recording format
+export const RECORDING_FORMAT_VERSION = 1;
+
+const DEVTOOLS_KEY = 'ks_devtools';
+
+let devtools: boolean | null = null;
+
+/**
+ * Whether the developer tools are available - resolved once per page load
+ */
+export function isDevtoolsEnabled(): boolean {
+  if (devtools === null) {
+    if (environment.production) {
+      devtools = false;
+      return devtools;
+    }
+    const param = new URLSearchParams(window.location.search).get('devtools');
+    if (param === '0' || param === 'false') {
+      localStorage.setItem(DEVTOOLS_KEY, 'false');
+    } else if (param === '1' || param === 'true') {
+      localStorage.removeItem(DEVTOOLS_KEY);
+    }
+    devtools = localStorage.getItem(DEVTOOLS_KEY) !== 'false';
+  }
+  return devtools;
+}
@@ -0,0 +1,36 @@
+// ============================================
+// IDLE TIMEOUT CONFIGURATION
+// Used by IdleService and the idle warning dialog. Control-room PCs are
+// shared: after this much inactivity the session is signed out, with a
+// countdown warning first. Activity in any tab of the app counts.
+//
+// Routes with data: { kiosk: true } (wall displays, e.g. /wall in app.routes.ts)
+// never time out in their own tab. Other tabs still time out, but while a wall
+// display is open the shared sign-in stays for it (LayoutComponent.idleLogout);
+// manual check in README.md ("Wall display with other tabs").
+// A terminal can override the timeout in localStorage:
+//   ks_idle_timeout_minutes = '30'   (0 turns the timeout off)
+// ============================================
+
+// Inactivity before sign-out
+export const IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+
+// Length of the countdown warning at the end of the idle period
+export const IDLE_WARNING_MS = 60 * 1000;
+
+// What counts as activity
+export const IDLE_ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'wheel', 'touchstart', 'scroll'];
+
+// Shared last-activity timestamp is written at most this often
+export const IDLE_ACTIVITY_WRITE_MS = 5 * 1000;
+
+const IDLE_TIMEOUT_OVERRIDE_KEY = 'ks_idle_timeout_minutes';
+
+/**
+ * Effective timeout in ms (0 = disabled) - the per-terminal override wins over IDLE_TIMEOUT_MS
+ */
+export function idleTimeoutMs(): number {
+  const override = localStorage.getItem(IDLE_TIMEOUT_OVERRIDE_KEY);
+  const minutes = override === null ? NaN : Number(override);
+  return Number.isFinite(minutes) && minutes >= 0 ? minutes * 60 * 1000 : IDLE_TIMEOUT_MS;
+}
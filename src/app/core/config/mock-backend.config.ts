@@ -0,0 +1,201 @@
+import { OperatingHours } from '../models/api.models';
+import { Role } from './permissions.config';
+import { environment } from '../../../environments/environment';
+
+// ============================================
+// MOCK BACKEND CONFIGURATION
+// Used by MockBackendInterceptor and SocketService when mock mode is on.
+// All data is synthetic and deterministic: the same site, time and seed
+// always produce the same numbers, so screenshots and demos are repeatable.
+//
+// Mock mode is on when any of these hold:
+// 1. environment.mockBackend (ng serve --configuration mock)
+// 2. ?mock=1 in the URL (remembered in localStorage; ?mock=0 turns it off)
+// 3. localStorage ks_mock_backend = 'true'
+// Production builds only honour 1 - a link must never put a real terminal
+// on fake data and a login that accepts any password.
+//
+// ?mockPattern=<pattern> (or localStorage ks_mock_pattern) forces one crowd
+// pattern on every mock site, e.g. to demo a stadium surge on the mall.
+// ============================================
+
+/**
+ * Crowd pattern
+ * hourly   - 24 load factors (0..1 of capacity) by site-local hour, interpolated within the hour
+ * weekday  - 7 multipliers, Sunday first
+ * dwellMinutes - average visit length; arrivals follow from occupancy / dwell (Little's law)
+ * maleShare - share of male visitors in demographics
+ */
+export interface CrowdPattern {
+  hourly: number[];
+  weekday: number[];
+  dwellMinutes: number;
+  maleShare: number;
+}
+
+export type CrowdPatternName = 'retail' | 'office' | 'stadium' | 'transit';
+
+export const CROWD_PATTERNS: Record<CrowdPatternName, CrowdPattern> = {
+  // Slow morning, lunch bump, evening peak
+  retail: {
+    hourly: [0, 0, 0, 0, 0, 0, 0, 0.05, 0.1, 0.2, 0.3, 0.45, 0.55, 0.5, 0.45, 0.45, 0.5, 0.65, 0.75, 0.85, 0.75, 0.55, 0.3, 0.1],
+    weekday: [1.1, 0.75, 0.75, 0.8, 0.85, 1.05, 1.15],
+    dwellMinutes: 55,
+    maleShare: 0.45
+  },
+  // Morning arrival, steady day, empties after 18:00, quiet weekends
+  office: {
+    hourly: [0, 0, 0, 0, 0, 0, 0.05, 0.25, 0.7, 0.9, 0.95, 0.9, 0.7, 0.85, 0.95, 0.9, 0.8, 0.5, 0.2, 0.08, 0.03, 0, 0, 0],
+    weekday: [0.1, 1, 1, 1, 1, 0.85, 0.15],
+    dwellMinutes: 240,
+    maleShare: 0.55
+  },
+  // Gates open in the afternoon, sharp surge before the evening event
+  stadium: {
+    hourly: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0.02, 0.03, 0.05, 0.1, 0.25, 0.55, 0.9, 1, 0.98, 0.6, 0.15, 0.02],
+    weekday: [0.9, 0.2, 0.2, 0.5, 0.3, 0.6, 1],
+    dwellMinutes: 150,
+    maleShare: 0.62
+  },
+  // Twin commuter peaks, open around the clock
+  transit: {
+    hourly: [0.05, 0.03, 0.02, 0.02, 0.05, 0.2, 0.6, 0.95, 0.85, 0.5, 0.35, 0.35, 0.4, 0.4, 0.35, 0.4, 0.6, 0.9, 1, 0.7, 0.4, 0.25, 0.15, 0.08],
+    weekday: [0.5, 1, 1, 1, 1, 1, 0.6],
+    dwellMinutes: 12,
+    maleShare: 0.52
+  }
+};
+
+/**
+ * Synthetic site served by GET /api/sites in mock mode
+ */
+export interface MockSite {
+  siteId: string;
+  name: string;
+  city: string;
+  country: string;
+  timezone: string;
+  operatingHours: OperatingHours;
+  capacity: number;
+  pattern: CrowdPatternName;
+  zones: string[];
+}
+
+// Timezones span Singapore to London (two with DST) to exercise site-time handling
+export const MOCK_SITES: MockSite[] = [
+  {
+    siteId: 'mock-marina-mall',
+    name: 'Marina Mall',
+    city: 'Dubai',
+    country: 'UAE',
+    timezone: 'Asia/Dubai',
+    // Closes after midnight
+    operatingHours: { open: '10:00', close: '01:00' },
+    capacity: 1200,
+    pattern: 'retail',
+    zones: ['Main Entrance', 'Food Court', 'North Atrium', 'Parking Level 1']
+  },
+  {
+    siteId: 'mock-harbourfront-office',
+    name: 'Harbourfront Tower',
+    city: 'Singapore',
+    country: 'Singapore',
+    timezone: 'Asia/Singapore',
+    operatingHours: { open: '07:00', close: '20:00' },
+    capacity: 450,
+    pattern: 'office',
+    zones: ['Lobby', 'Turnstiles', 'Cafeteria']
+  },
+  {
+    siteId: 'mock-riverside-arena',
+    name: 'Riverside Arena',
+    city: 'London',
+    country: 'UK',
+    timezone: 'Europe/London',
+    operatingHours: { open: '12:00', close: '23:30' },
+    capacity: 5000,
+    pattern: 'stadium',
+    zones: ['Gate A', 'Gate B', 'Gate C', 'Concourse']
+  },
+  {
+    siteId: 'mock-central-station',
+    name: 'Central Station',
+    city: 'Berlin',
+    country: 'Germany',
+    timezone: 'Europe/Berlin',
+    operatingHours: { open: '00:00', close: '24:00' },
+    capacity: 2500,
+    pattern: 'transit',
+    zones: ['Platform 1', 'Platform 2', 'Ticket Hall', 'East Exit']
+  }
+];
+
+// Changing the seed reshuffles every noise term, names and genders
+export const MOCK_SEED = 1729;
+
+// Simulated network latency of fake API responses
+export const MOCK_LATENCY_MS = 250;
+
+// Socket simulation: live_occupancy tick, and the cap on alert events per tick
+// (a busy site has far more entries per tick than anyone could read)
+export const MOCK_LIVE_INTERVAL_MS = 5000;
+export const MOCK_MAX_ALERTS_PER_TICK = 2;
+
+// Occupancy share of capacity above which alerts are raised as warning / critical
+export const MOCK_WARNING_LOAD = 0.85;
+export const MOCK_CRITICAL_LOAD = 0.95;
+
+// Token lifetime of the mock login
+export const MOCK_TOKEN_TTL_MS = 8 * 60 * 60 * 1000;
+
+// Demo accounts: the mock login picks role and site scope from the email's
+// local part (any non-empty password works). Everyone else is an operator on all sites.
+export const MOCK_ACCOUNTS: Record<string, { role: Role; sites?: string[] }> = {
+  guard: { role: 'guard', sites: ['mock-marina-mall', 'mock-riverside-arena'] },
+  viewer: { role: 'viewer' }
+};
+
+const MOCK_MODE_KEY = 'ks_mock_backend';
+const MOCK_PATTERN_KEY = 'ks_mock_pattern';
+
+let mockMode: boolean | null = null;
+
+/**
+ * Whether the app talks to the in-process fake backend instead of environment.apiUrl
+ * Resolved once per page load - switching requires a reload anyway (tokens, caches)
+ */
+export function isMockBackend(): boolean {
+  if (mockMode === null) {
+    if (environment.production) {
+      mockMode = !!environment.mockBackend;
+      return mockMode;
+    }
+    const param = new URLSearchParams(window.location.search).get('mock');
+    if (param === '1' || param === 'true') {
+      localStorage.setItem(MOCK_MODE_KEY, 'true');
+    } else if (param === '0' || param === 'false') {
+      localStorage.removeItem(MOCK_MODE_KEY);
+    }
+    mockMode = !!environment.mockBackend || localStorage.getItem(MOCK_MODE_KEY) === 'true';
+  }
+  return mockMode;
+}
+
+let patternOverride: CrowdPatternName | null | undefined;
+
+/**
+ * Pattern forced on every mock site, if any (?mockPattern=stadium) - resolved once per page load
+ */
+export function mockPatternOverride(): CrowdPatternName | null {
+  if (patternOverride === undefined) {
+    const param = new URLSearchParams(window.location.search).get('mockPattern');
+    if (param && Object.hasOwn(CROWD_PATTERNS, param)) {
+      localStorage.setItem(MOCK_PATTERN_KEY, param);
+    } else if (param === '') {
+      localStorage.removeItem(MOCK_PATTERN_KEY);
+    }
+    const stored = localStorage.getItem(MOCK_PATTERN_KEY);
+    patternOverride = stored && Object.hasOwn(CROWD_PATTERNS, stored) ? stored as CrowdPatternName : null;
+  }
+  return patternOverride;
+}
@@ -0,0 +1,15 @@
+import { OperatingHours } from '../models/api.models';
+
+// ============================================
+// OPERATING HOURS CONFIGURATION
+// Resolution order for a site's analytics window:
+// 1. OPERATING_HOURS_OVERRIDES (keyed by siteId) - local override
+// 2. operatingHours from the /api/sites response
+// 3. DEFAULT_OPERATING_HOURS
+// ============================================
+
+// Original prototype window - used when neither the backend nor an override says otherwise
+export const DEFAULT_OPERATING_HOURS: OperatingHours = { open: '08:00', close: '18:00' };
+
+// Use { open: '00:00', close: '24:00' } for sites that are open 24/7
+export const OPERATING_HOURS_OVERRIDES: Record<string, OperatingHours> = {};
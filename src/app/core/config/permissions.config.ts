@@ -0,0 +1,41 @@
+// ============================================
+// ROLE-BASED ACCESS CONFIGURATION
+// Roles come from the JWT (role / roles claim), site scope from the
+// sites / siteIds claim. Used by PermissionService, permissionGuard and
+// the *appHasPermission directive.
+//
+// This only shapes the UI - the backend must enforce the same rules.
+// ============================================
+
+export type Role = 'guard' | 'operator' | 'viewer';
+
+export type Permission =
+  | 'dashboard.view'
+  | 'entries.view'          // Visitor names and faces (personal data), also in alerts
+  | 'alerts.view'
+  | 'alerts.acknowledge'
+  | 'alertRules.manage'
+  | 'sites.switch';
+
+// guard    - floor security: watches live data and people, handles alerts
+// operator - control room: everything, including alert rule configuration
+// viewer   - management / reporting: aggregate numbers only, no personal data
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  guard: ['dashboard.view', 'entries.view', 'alerts.view', 'alerts.acknowledge', 'sites.switch'],
+  operator: ['dashboard.view', 'entries.view', 'alerts.view', 'alerts.acknowledge', 'alertRules.manage', 'sites.switch'],
+  viewer: ['dashboard.view', 'alerts.view', 'sites.switch']
+};
+
+// Most privileged first - a token listing several roles gets the first one found here
+export const ROLE_PRECEDENCE: Role[] = ['operator', 'guard', 'viewer'];
+
+// Tokens issued before roles existed carry no role claim; they keep full access
+// until the backend issues roles. Set to 'viewer' to fail closed instead.
+export const DEFAULT_ROLE: Role = 'operator';
+
+// A role claim naming none of the roles above (typo, role added on the backend
+// first) fails closed
+export const UNKNOWN_ROLE: Role = 'viewer';
+
+// Site scope claim value meaning "every site"
+export const ALL_SITES = '*';
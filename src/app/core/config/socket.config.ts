@@ -0,0 +1,22 @@
+// ============================================
+// SOCKET CONFIGURATION
+// Used by SocketService for connection health reporting
+// (connectionState$) and site rooms, and by LivePollingService for the
+// REST fallback.
+// ============================================
+
+// Latency probe: an acknowledged emit every interval; the round trip is the latency.
+// Backends that don't acknowledge the event simply leave latency unknown (null).
+export const LATENCY_PROBE_EVENT = 'latency_probe';
+export const LATENCY_PROBE_INTERVAL_MS = 15 * 1000;
+export const LATENCY_PROBE_TIMEOUT_MS = 5 * 1000;
+
+// Site rooms: the server only sends events of the site being viewed.
+// Emitted with { siteId } on every site switch and after every (re)connect.
+export const SITE_JOIN_EVENT = 'join_site';
+export const SITE_LEAVE_EVENT = 'leave_site';
+
+// REST polling fallback: once the socket has been down this long, today's occupancy
+// and footfall are polled every POLL_INTERVAL_MS until it reconnects
+export const POLL_FALLBACK_AFTER_MS = 20 * 1000;
+export const POLL_INTERVAL_MS = 30 * 1000;
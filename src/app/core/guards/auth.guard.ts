@@ -2,7 +2,7 @@ import { inject } from '@angular/core';
 import { CanActivateFn, Router } from '@angular/router';
 import { AuthService } from '../services/auth.service';
 
-export const authGuard: CanActivateFn = () => {
+export const authGuard: CanActivateFn = (route, state) => {
   const auth = inject(AuthService);
   const router = inject(Router);
   
@@ -10,6 +10,7 @@ export const authGuard: CanActivateFn = () => {
     return true;
   }
   
-  router.navigate(['/login']);
-  return false;
+  // Remember the requested page (path + query, e.g. /entries?site=...) - login sends the user back there
+  const returnUrl = state.url && state.url !== '/' ? state.url : null;
+  return router.createUrlTree(['/login'], { queryParams: returnUrl ? { returnUrl } : {} });
 };
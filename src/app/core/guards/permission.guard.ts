@@ -0,0 +1,28 @@
+import { inject } from '@angular/core';
+import { CanActivateFn, Router } from '@angular/router';
+import { PermissionService } from '../services/permission.service';
+import { Permission } from '../config/permissions.config';
+
+/**
+ * Feature-level access: the route's data.permission (one or an array) must all be granted
+ * Denied users land on the dashboard, which every role can see
+ */
+export const permissionGuard: CanActivateFn = (route) => {
+  const permissions = inject(PermissionService);
+  const router = inject(Router);
+  const required = route.data['permission'] as Permission | Permission[] | undefined;
+
+  if (!required || permissions.hasAll(Array.isArray(required) ? required : [required])) {
+    return true;
+  }
+
+  console.warn('⚠️ permissionGuard: Access denied:', {
+    route: route.routeConfig?.path,
+    required,
+    role: permissions.role,
+    timestamp: new Date().toISOString()
+  });
+  // Keep the site in the URL when bouncing back to the dashboard
+  const site = route.queryParamMap.get('site');
+  return router.createUrlTree(['/'], { queryParams: site ? { site } : {} });
+};
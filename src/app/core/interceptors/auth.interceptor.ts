@@ -1,58 +1,75 @@
-import { HttpInterceptorFn } from '@angular/common/http';
+import { HttpErrorResponse, HttpInterceptorFn, HttpRequest } from '@angular/common/http';
 import { inject } from '@angular/core';
-import { catchError } from 'rxjs';
+import { catchError, switchMap, throwError } from 'rxjs';
 import { AuthService } from '../services/auth.service';
 
 export const AuthInterceptor: HttpInterceptorFn = (req, next) => {
   const auth = inject(AuthService);
   const token = auth.getToken();
 
-  // Skip token validation for login endpoint
-  if (req.url.includes('/api/auth/login')) {
+  // Skip token handling for login and refresh endpoints (refresh sets its own header)
+  if (req.url.includes('/api/auth/login') || req.url.includes('/api/auth/refresh')) {
     return next(req);
   }
 
-  if (token) {
-    // Check if token is expired before making the request
-    if (auth.isTokenExpired()) {
-      console.warn('⚠️ AuthInterceptor: Token expired, request may fail:', {
-        url: req.url,
-        method: req.method,
-        expiration: auth.getTokenExpiration(),
-        timeUntilExpiration: auth.getTimeUntilExpiration(),
-        timestamp: new Date().toISOString()
-      });
-      // Still proceed with request - let backend handle 401/403
-      // This allows graceful handling of token expiration
-    }
-    
-    req = req.clone({
-      setHeaders: { Authorization: `Bearer ${token}` }
+  const withToken = (value: string): HttpRequest<unknown> => req.clone({
+    setHeaders: { Authorization: `Bearer ${value}` }
+  });
+
+  const logAuthError = (err: HttpErrorResponse, hasToken: boolean) => {
+    console.error('❌ AuthInterceptor: Authentication error:', {
+      status: err.status,
+      statusText: err.statusText,
+      message: err.message,
+      url: req.url,
+      method: req.method,
+      hasToken,
+      timestamp: new Date().toISOString()
     });
-  } else {
+  };
+
+  if (!token) {
     // Log warning if request is made without token
     console.warn('⚠️ AuthInterceptor: Request made without token:', {
       url: req.url,
       method: req.method,
       timestamp: new Date().toISOString()
     });
+    return next(req).pipe(
+      catchError(err => {
+        if (err.status === 401 || err.status === 403) {
+          logAuthError(err, false);
+        }
+        throw err; // Re-throw to let error handlers in components/services handle it
+      })
+    );
+  }
+
+  // Token already expired: refresh first rather than send a request the backend will reject
+  // (shares any refresh already in flight)
+  if (auth.isTokenExpired()) {
+    return auth.refreshToken().pipe(
+      switchMap(fresh => next(withToken(fresh)))
+    );
   }
 
-  return next(req).pipe(
+  return next(withToken(token)).pipe(
     catchError(err => {
-      // Log authentication errors
-      if (err.status === 401 || err.status === 403) {
-        console.error('❌ AuthInterceptor: Authentication error:', {
-          status: err.status,
-          statusText: err.statusText,
-          message: err.message,
-          url: req.url,
-          method: req.method,
-          hasToken: !!token,
-          timestamp: new Date().toISOString()
-        });
+      if (err.status !== 401) {
+        if (err.status === 403) {
+          logAuthError(err, true);
+        }
+        throw err; // Re-throw to let error handlers in components/services handle it
       }
-      throw err; // Re-throw to let error handlers in components/services handle it
+      // 401 with a token the client thought valid (revoked, clock skew): refresh once and replay
+      // Concurrent 401s queue on the same single-flight refresh, then each replays its own request
+      return auth.refreshToken().pipe(
+        catchError(() => {
+          logAuthError(err, true);
+          return throwError(() => err); // Surface the original 401 - refreshToken() handles session expiry
+        }),
+        switchMap(fresh => next(withToken(fresh)))
+      );
     })
   );
 };
@@ -1,141 +1,228 @@
-import { HttpInterceptorFn, HttpRequest, HttpResponse } from '@angular/common/http';
-import { of, tap, catchError } from 'rxjs';
+import { HttpEvent, HttpInterceptorFn, HttpRequest, HttpResponse } from '@angular/common/http';
+import { Observable, of, from, tap, catchError, concat, timeout, switchMap, EMPTY } from 'rxjs';
 import { inject } from '@angular/core';
 import { AuthService } from '../services/auth.service';
+import { DataFreshnessService } from '../services/data-freshness.service';
+import { PersistentCacheService } from '../services/persistent-cache.service';
+import { NetworkStatusService } from '../services/network-status.service';
+import { CACHE_RULES, CacheRule, MAX_CACHE_ENTRIES, REVALIDATE_TIMEOUT_MS } from '../config/cache.config';
 
 interface CacheEntry {
   response: HttpResponse<any>;
   timestamp: number;
+  ttlMs: number;
+  staleMs: number;
+  siteId: string;
+  // Full canonical request - compared on lookup so a hash collision can never serve the wrong response
+  canonical: string;
+  lineage: string;
 }
 
+// Map iteration order is insertion order: re-inserting on every hit keeps the
+// least recently used entry first, which is what eviction removes
 const cache = new Map<string, CacheEntry>();
-const CACHE_TTL = 120000; // 2 minutes cache for analytics data (increased for instant cached loads)
-const MAX_CACHE_SIZE = 100; // Maximum number of cache entries to prevent memory leaks
-const CACHE_CLEANUP_INTERVAL = 60000; // Clean up cache every 60 seconds instead of on every response
-let lastCleanupTime = Date.now();
 
-// Cache for stringified request bodies to avoid repeated JSON.stringify calls
-const bodyCache = new Map<string, string>();
+// Latest cache key per request lineage (same request apart from lineageIgnores fields)
+const latestByLineage = new Map<string, string>();
 
 // Function to clear cache for a specific site or all cache
 export function clearCacheForSite(siteId?: string): void {
   if (siteId) {
-    // Clear cache entries for specific site
-    const keysToDelete: string[] = [];
-    cache.forEach((value, key) => {
-      if (key.includes(`:${siteId}:`)) {
-        keysToDelete.push(key);
+    // Entries remember the site they were fetched for - no key parsing needed
+    cache.forEach((entry, key) => {
+      if (entry.siteId === siteId) {
+        deleteEntry(key);
       }
     });
-    keysToDelete.forEach(key => cache.delete(key));
   } else {
     // Clear all cache
     cache.clear();
-    bodyCache.clear();
+    latestByLineage.clear();
   }
 }
 
-// Optimized cache cleanup - only runs periodically, not on every response
-function cleanupCacheIfNeeded(): void {
-  const now = Date.now();
-  // Only cleanup every 60 seconds to reduce overhead
-  if (now - lastCleanupTime < CACHE_CLEANUP_INTERVAL) {
-    return;
+/**
+ * Stable JSON: object keys sorted recursively, so {a,b} and {b,a} produce the same string
+ */
+function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'undefined';
   }
-  lastCleanupTime = now;
-
-  // Clean up expired entries
-  const keysToDelete: string[] = [];
-  cache.forEach((value, key) => {
-    if (now - value.timestamp > CACHE_TTL) {
-      keysToDelete.push(key);
-    }
-  });
-  keysToDelete.forEach(key => cache.delete(key));
-
-  // If still too large, remove oldest entries
-  if (cache.size >= MAX_CACHE_SIZE) {
-    const sortedEntries = Array.from(cache.entries())
-      .sort((a, b) => a[1].timestamp - b[1].timestamp);
-    const toRemove = sortedEntries.slice(0, Math.floor(MAX_CACHE_SIZE / 2));
-    toRemove.forEach(([key]) => cache.delete(key));
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
   }
+  const obj = value as Record<string, unknown>;
+  const keys = Object.keys(obj).filter(key => obj[key] !== undefined).sort();
+  return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalJson(obj[key])}`).join(',')}}`;
+}
+
+/**
+ * 53-bit string hash (cyrb53) - short keys, negligible collision rate
+ */
+function hash53(str: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < str.length; i++) {
+    const ch = str.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+// Site a request belongs to: the body's siteId (what the backend actually uses), else the selected site
+function requestSiteId(req: HttpRequest<any>, fallback: string): string {
+  const bodySiteId = req.body && typeof req.body === 'object' ? (req.body as Record<string, unknown>)['siteId'] : undefined;
+  return typeof bodySiteId === 'string' && bodySiteId ? bodySiteId : fallback;
+}
+
+function ruleFor(url: string): CacheRule | undefined {
+  return CACHE_RULES.find(r => url.includes(r.match));
+}
 
-  // Clean up body cache (keep only last 50 entries)
-  if (bodyCache.size > 50) {
-    const bodyKeys = Array.from(bodyCache.keys());
-    bodyKeys.slice(0, bodyKeys.length - 50).forEach(key => bodyCache.delete(key));
+// Body without the fields that legitimately move between otherwise identical requests
+function lineageBody(body: unknown, ignores: string[]): unknown {
+  if (!body || typeof body !== 'object' || Array.isArray(body) || ignores.length === 0) {
+    return body;
   }
+  const copy: Record<string, unknown> = { ...(body as Record<string, unknown>) };
+  ignores.forEach(field => delete copy[field]);
+  return copy;
 }
 
-// Optimized cache key generation with body caching
-function getCacheKey(req: HttpRequest<any>, siteId: string): string {
-  let bodyStr = '';
-  if (req.body) {
-    // Use cached stringified body if available
-    const bodyKey = `${req.method}:${req.url}`;
-    bodyStr = bodyCache.get(bodyKey) || JSON.stringify(req.body);
-    if (!bodyCache.has(bodyKey)) {
-      bodyCache.set(bodyKey, bodyStr);
-    }
+function deleteEntry(key: string): void {
+  const entry = cache.get(key);
+  cache.delete(key);
+  if (entry && latestByLineage.get(entry.lineage) === key) {
+    latestByLineage.delete(entry.lineage);
   }
-  return `${req.method}:${req.url}:${siteId}:${bodyStr}`;
 }
 
-export const CacheInterceptor: HttpInterceptorFn = (req, next) => {
-  // Only cache GET and POST requests to analytics endpoints
-  const isAnalyticsRequest = req.url.includes('/api/analytics/');
-  const isSitesRequest = req.url.includes('/api/sites');
-  // Don't cache entry-exit requests - they're time-sensitive (last 30 minutes)
-  const isEntryExitRequest = req.url.includes('/api/analytics/entry-exit');
-  
-  if (!isAnalyticsRequest && !isSitesRequest) {
-    return next(req);
+/**
+ * Cached response for an exact request
+ * fresh: within ttlMs; otherwise usable only as stale data (within ttlMs + staleMs)
+ */
+function getEntry(key: string, canonical: string): { entry: CacheEntry; fresh: boolean } | undefined {
+  const entry = cache.get(key);
+  if (!entry || entry.canonical !== canonical) {
+    return undefined;
   }
-  
-  // Skip caching for entry-exit requests (time-sensitive data)
-  if (isEntryExitRequest) {
+  const age = Date.now() - entry.timestamp;
+  if (age >= entry.ttlMs + entry.staleMs) {
+    deleteEntry(key);
+    return undefined;
+  }
+  // Mark as most recently used
+  cache.delete(key);
+  cache.set(key, entry);
+  return { entry, fresh: age < entry.ttlMs };
+}
+
+/**
+ * Most recent response of the same lineage, if still within its stale window
+ */
+function getLineageEntry(lineage: string): CacheEntry | undefined {
+  const key = latestByLineage.get(lineage);
+  const entry = key ? cache.get(key) : undefined;
+  if (!entry || Date.now() - entry.timestamp >= entry.ttlMs + entry.staleMs) {
+    return undefined;
+  }
+  return entry;
+}
+
+function setEntry(key: string, entry: CacheEntry): void {
+  cache.delete(key);
+  cache.set(key, entry);
+  latestByLineage.set(entry.lineage, key);
+  while (cache.size > MAX_CACHE_ENTRIES) {
+    deleteEntry(cache.keys().next().value as string);
+  }
+}
+
+export const CacheInterceptor: HttpInterceptorFn = (req, next) => {
+  // Only GET and POST requests to endpoints with a cache rule are cached
+  const rule = ruleFor(req.url);
+  if (!rule || (rule.ttlMs <= 0 && rule.staleMs <= 0) || (req.method !== 'GET' && req.method !== 'POST')) {
     return next(req);
   }
 
-  // OPTIMIZATION: Only inject AuthService once per request, cache siteId lookup
   const authService = inject(AuthService);
-  const siteId = authService.getSiteId() || '';
+  const freshness = inject(DataFreshnessService);
+  const siteId = requestSiteId(req, authService.getSiteId() || '');
 
-  // OPTIMIZATION: Use cached body stringification
-  const cacheKey = getCacheKey(req, siteId);
-  const cached = cache.get(cacheKey);
+  // Key = site + hash of method, URL (with query string), site and canonical body
+  const requestLine = `${req.method} ${req.urlWithParams}\n${siteId}\n`;
+  const canonical = requestLine + (req.body ? canonicalJson(req.body) : '');
+  const cacheKey = `${siteId}|${hash53(canonical)}`;
+  const lineage = `${siteId}|${hash53(requestLine + canonicalJson(lineageBody(req.body, rule.lineageIgnores) ?? ''))}`;
+  const cached = getEntry(cacheKey, canonical);
 
-  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-    return of(cached.response.clone());
+  if (cached?.fresh) {
+    return of(cached.entry.response.clone());
   }
 
-  // Periodic cache cleanup (non-blocking)
-  cleanupCacheIfNeeded();
+  const persistent = inject(PersistentCacheService);
+  const network = inject(NetworkStatusService);
 
-  return next(req).pipe(
-    tap({
-      next: (event) => {
-        if (event instanceof HttpResponse) {
-          cache.set(cacheKey, {
-            response: event.clone(),
-            timestamp: Date.now()
-          });
-        }
-      },
-      error: (err) => {
-        console.error('❌ CacheInterceptor: Error processing request:', {
-          type: err.name || 'HTTP Error',
-          status: err.status,
-          statusText: err.statusText,
-          message: err.message,
-          error: err.error,
-          url: req.url,
-          method: req.method,
-          timestamp: new Date().toISOString()
+  const network$ = next(req).pipe(
+    tap(event => {
+      if (event instanceof HttpResponse) {
+        const timestamp = Date.now();
+        setEntry(cacheKey, {
+          response: event.clone(),
+          timestamp,
+          ttlMs: rule.ttlMs,
+          staleMs: rule.staleMs,
+          siteId,
+          canonical,
+          lineage
         });
+        freshness.refreshed(lineage);
+        network.reportBackendResult(true);
+        if (rule.persistMs > 0) {
+          persistent.put({ lineage, canonical, siteId, url: event.url || req.urlWithParams, status: event.status, body: event.body, storedAt: timestamp });
+        }
       }
     }),
+    catchError(err => {
+      // Status 0 = no response at all (offline, DNS, CORS) - anything else means the backend is up
+      network.reportBackendResult(err.status !== 0);
+      throw err;
+    })
+  );
+
+  // STALE-WHILE-REVALIDATE: show the last known response now, replace it when the network answers
+  // Callers receive two responses; a failed refresh keeps the stale one instead of erroring
+  const serveStale = (response: HttpResponse<any>, storedAt: number): Observable<HttpEvent<any>> => {
+    freshness.servedStale(lineage, storedAt);
+    return concat(
+      of(response.clone()),
+      network$.pipe(
+        timeout(REVALIDATE_TIMEOUT_MS),
+        catchError(err => {
+          freshness.refreshFailed(lineage);
+          console.warn('⚠️ CacheInterceptor: Background refresh failed, keeping cached response:', {
+            type: err.name || 'HTTP Error',
+            status: err.status,
+            message: err.message,
+            url: req.url,
+            cachedAt: new Date(storedAt).toISOString(),
+            timestamp: new Date().toISOString()
+          });
+          return EMPTY;
+        })
+      )
+    );
+  };
+
+  const stale = cached?.entry || getLineageEntry(lineage);
+  if (stale) {
+    return serveStale(stale.response, stale.timestamp);
+  }
+
+  const networkOrError$ = network$.pipe(
     catchError(err => {
       console.error('❌ CacheInterceptor: Request failed:', {
         type: err.name || 'HTTP Error',
@@ -150,5 +237,32 @@ export const CacheInterceptor: HttpInterceptorFn = (req, next) => {
       throw err; // Re-throw to let error handlers in components/services handle it
     })
   );
-};
 
+  if (rule.persistMs <= 0) {
+    return networkOrError$;
+  }
+
+  // Nothing in memory (page reload, new session, evicted) - a response saved in IndexedDB
+  // stands in while the network answers, and keeps the view populated when offline
+  return from(persistent.get(lineage)).pipe(
+    switchMap(record => {
+      if (!record || Date.now() - record.storedAt >= rule.persistMs) {
+        return networkOrError$;
+      }
+      const response = new HttpResponse({ body: record.body, status: record.status, url: record.url });
+      // Back into memory so the next lookup doesn't touch IndexedDB
+      const key = record.canonical === canonical ? cacheKey : `${siteId}|${hash53(record.canonical)}`;
+      setEntry(key, {
+        response,
+        timestamp: record.storedAt,
+        // Already past its fresh window; kept as stale for as long as it may be persisted
+        ttlMs: 0,
+        staleMs: rule.persistMs,
+        siteId,
+        canonical: record.canonical,
+        lineage
+      });
+      return serveStale(response, record.storedAt);
+    })
+  );
+};
@@ -0,0 +1,117 @@
+import { HttpErrorResponse, HttpInterceptorFn, HttpRequest, HttpResponse } from '@angular/common/http';
+import { Observable, of, throwError, mergeMap, timer } from 'rxjs';
+import { MockDataGenerator } from '../mock/mock-data.generator';
+import { isMockBackend, MOCK_ACCOUNTS, MOCK_LATENCY_MS, MOCK_TOKEN_TTL_MS } from '../config/mock-backend.config';
+
+// One generator for the app - it memoizes per-slot loads across requests
+const generator = new MockDataGenerator();
+
+type Json = Record<string, unknown>;
+
+/**
+ * Unsigned JWT with the claims AuthService reads - decodable by jwt-decode, never verified
+ */
+function mockToken(email: string): string {
+  const encode = (value: object) => btoa(JSON.stringify(value)).replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+  const now = Date.now();
+  const name = email.split('@')[0];
+  const account = MOCK_ACCOUNTS[name.toLowerCase()];
+  const payload = {
+    email,
+    name,
+    userId: `mock-${name}`,
+    role: account?.role || 'operator',
+    sites: account?.sites || ['*'],
+    iat: Math.floor(now / 1000),
+    exp: Math.floor((now + MOCK_TOKEN_TTL_MS) / 1000)
+  };
+  return `${encode({ alg: 'none', typ: 'JWT' })}.${encode(payload)}.mock`;
+}
+
+// Email claim of a token issued by mockToken (null if it isn't one)
+function mockTokenEmail(authorization: string | null): string | null {
+  try {
+    const payload = (authorization || '').replace(/^Bearer /, '').split('.')[1];
+    const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof claims.email === 'string' ? claims.email : null;
+  } catch {
+    return null;
+  }
+}
+
+function unauthorized(req: HttpRequest<unknown>): Observable<never> {
+  return throwError(() => new HttpErrorResponse({ status: 401, statusText: 'Unauthorized', url: req.url, error: { message: 'Unauthorized' } }));
+}
+
+function handle(req: HttpRequest<unknown>): Observable<HttpResponse<unknown>> | null {
+  const url = req.url;
+  const body = (req.body && typeof req.body === 'object' ? req.body : {}) as Json;
+
+  if (url.endsWith('/api/auth/login')) {
+    const email = typeof body['email'] === 'string' ? body['email'].trim() : '';
+    // Any email/password pair logs in - an empty password exercises the failure path
+    if (!email || !body['password']) {
+      return unauthorized(req);
+    }
+    return of(new HttpResponse({ status: 200, url, body: { token: mockToken(email), user: { email, name: email.split('@')[0] } } }));
+  }
+
+  if (!req.headers.has('Authorization')) {
+    return unauthorized(req);
+  }
+
+  if (url.endsWith('/api/auth/refresh')) {
+    // Expired mock tokens are still honoured, so the silent refresh path can be exercised
+    const email = mockTokenEmail(req.headers.get('Authorization'));
+    return email ? of(new HttpResponse({ status: 200, url, body: { token: mockToken(email) } })) : unauthorized(req);
+  }
+
+  if (url.endsWith('/api/sites')) {
+    return of(new HttpResponse({ status: 200, url, body: generator.sites() }));
+  }
+
+  if (!url.includes('/api/analytics/')) {
+    return null;
+  }
+
+  const site = generator.site(typeof body['siteId'] === 'string' ? body['siteId'] : null);
+  const now = Date.now();
+  const fromUtc = Number(body['fromUtc']) || now - 30 * 60000;
+  // Nothing is known about the future
+  const toUtc = Math.min(Number(body['toUtc']) || now, now);
+  let responseBody: unknown;
+
+  if (url.endsWith('/api/analytics/footfall')) {
+    responseBody = generator.footfall(site, fromUtc, toUtc);
+  } else if (url.endsWith('/api/analytics/dwell')) {
+    responseBody = generator.dwell(site, fromUtc, toUtc);
+  } else if (url.endsWith('/api/analytics/occupancy')) {
+    responseBody = generator.occupancy(site, fromUtc, toUtc);
+  } else if (url.endsWith('/api/analytics/demographics')) {
+    responseBody = generator.demographics(site, fromUtc, toUtc);
+  } else if (url.endsWith('/api/analytics/entry-exit')) {
+    const pageNumber = Math.max(1, Number(body['pageNumber']) || 1);
+    const pageSize = Math.max(1, Number(body['pageSize']) || 50);
+    responseBody = { ...generator.visitorPage(site, fromUtc, toUtc, now, pageNumber, pageSize), pageNumber, pageSize };
+  } else {
+    return null;
+  }
+
+  return of(new HttpResponse({ status: 200, url, body: responseBody }));
+}
+
+/**
+ * In-process fake backend (mock mode only - see mock-backend.config.ts)
+ * Registered last so cache and auth interceptors behave exactly as against the real server
+ * Unknown endpoints answer 404 rather than leaking to the network
+ */
+export const MockBackendInterceptor: HttpInterceptorFn = (req, next) => {
+  if (!isMockBackend() || !req.url.includes('/api/')) {
+    return next(req);
+  }
+
+  // Generate after the simulated latency so loading states render as they would for real
+  return timer(MOCK_LATENCY_MS).pipe(
+    mergeMap(() => handle(req) || throwError(() => new HttpErrorResponse({ status: 404, statusText: 'Not Found', url: req.url })))
+  );
+};
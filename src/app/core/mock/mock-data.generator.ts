@@ -0,0 +1,304 @@
+import {
+  Site,
+  OperatingHours,
+  FootfallResponse,
+  DwellResponse,
+  OccupancyResponse,
+  DemographicsResponse,
+  EntryExitRecord
+} from '../models/api.models';
+import { zonedParts } from '../services/timezone.service';
+import {
+  CROWD_PATTERNS,
+  CrowdPattern,
+  MOCK_SEED,
+  MOCK_SITES,
+  MockSite,
+  mockPatternOverride
+} from '../config/mock-backend.config';
+
+const MINUTE_MS = 60000;
+const SLOT_MS = 5 * MINUTE_MS;
+const HOUR_MS = 60 * MINUTE_MS;
+// Memoized slot loads - cleared wholesale when it grows past this
+const MAX_MEMO_ENTRIES = 50000;
+
+const FIRST_NAMES = ['Aisha', 'Omar', 'Lina', 'James', 'Mei', 'Ravi', 'Sofia', 'Lukas', 'Fatima', 'Daniel', 'Yuki', 'Hassan', 'Emma', 'Carlos', 'Priya', 'Noah'];
+const LAST_NAMES = ['Rahman', 'Tan', 'Schmidt', 'Okafor', 'Silva', 'Khan', 'Walker', 'Nakamura', 'Haddad', 'Müller', 'Chen', 'Costa'];
+
+/**
+ * Visitor derived from a site's arrivals - backs entry-exit pages and alert events
+ * exitUtc is null while the visitor is still inside (relative to "now")
+ */
+export interface MockVisitor extends EntryExitRecord {
+  siteId: string;
+  entryUtc: number;
+  exitUtc: number | null;
+}
+
+interface VisitorRef {
+  slot: number;
+  index: number;
+  entryUtc: number;
+  dwellMinutes: number;
+}
+
+/**
+ * Deterministic synthetic crowd data for the mock backend
+ * Occupancy follows the site's crowd pattern by local hour and weekday, plus seeded noise;
+ * footfall, demographics and visitors are derived from it, so all endpoints agree with each other
+ */
+export class MockDataGenerator {
+  private loadMemo = new Map<string, number>();
+
+  constructor(private seed = MOCK_SEED) {}
+
+  sites(): Site[] {
+    return MOCK_SITES.map(({ siteId, name, city, country, timezone, operatingHours }) => ({
+      siteId, name, city, country, timezone, operatingHours
+    }));
+  }
+
+  /**
+   * Site by id - unknown or empty ids resolve to the first site, as the real backend does
+   */
+  site(siteId: string | null | undefined): MockSite {
+    return MOCK_SITES.find(s => s.siteId === siteId) || MOCK_SITES[0];
+  }
+
+  footfall(site: MockSite, fromUtc: number, toUtc: number): FootfallResponse {
+    let footfall = 0;
+    this.forEachSlot(fromUtc, toUtc, slot => {
+      footfall += this.arrivals(site, slot);
+    });
+    return { siteId: site.siteId, fromUtc, toUtc, footfall };
+  }
+
+  dwell(site: MockSite, fromUtc: number, toUtc: number): DwellResponse {
+    const { footfall } = this.footfall(site, fromUtc, toUtc);
+    // Day-level wobble around the pattern's average - per-visitor dwell would be too slow over a month
+    const day = Math.floor(fromUtc / (24 * HOUR_MS));
+    const avgDwellMinutes = Math.round(this.pattern(site).dwellMinutes * (0.92 + 0.16 * this.random(site.siteId, 'dwell', day)) * 10) / 10;
+    return {
+      siteId: site.siteId,
+      fromUtc,
+      toUtc,
+      avgDwellMinutes: footfall > 0 ? avgDwellMinutes : 0,
+      dwellRecords: Math.round(footfall * 0.93)
+    };
+  }
+
+  occupancy(site: MockSite, fromUtc: number, toUtc: number): OccupancyResponse {
+    const buckets = this.hourStarts(fromUtc, toUtc).map(hour => {
+      let total = 0;
+      let slots = 0;
+      this.forEachSlot(Math.max(hour, fromUtc), Math.min(hour + HOUR_MS, toUtc), slot => {
+        total += this.occupancyAt(site, slot);
+        slots++;
+      });
+      return { utc: hour, local: this.localString(site, hour), avg: slots > 0 ? Math.round(total / slots) : 0 };
+    });
+    return { siteId: site.siteId, fromUtc, toUtc, timezone: site.timezone, buckets };
+  }
+
+  demographics(site: MockSite, fromUtc: number, toUtc: number): DemographicsResponse {
+    const maleShare = this.pattern(site).maleShare;
+    let totalMale = 0;
+    let totalFemale = 0;
+    const buckets = this.hourStarts(fromUtc, toUtc).map(hour => {
+      let arrivals = 0;
+      this.forEachSlot(Math.max(hour, fromUtc), Math.min(hour + HOUR_MS, toUtc), slot => {
+        arrivals += this.arrivals(site, slot);
+      });
+      const share = maleShare + 0.1 * (this.random(site.siteId, 'gender', hour) - 0.5);
+      const male = Math.round(arrivals * share);
+      const female = arrivals - male;
+      totalMale += male;
+      totalFemale += female;
+      return { utc: hour, local: this.localString(site, hour), male, female };
+    });
+    return { siteId: site.siteId, fromUtc, toUtc, timezone: site.timezone, buckets, totalMale, totalFemale };
+  }
+
+  /**
+   * Visitors who entered within [fromUtc, toUtc], newest first
+   */
+  visitors(site: MockSite, fromUtc: number, toUtc: number, now: number): MockVisitor[] {
+    return this.arrivalsBetween(site, fromUtc, toUtc, now).map(ref => this.visitor(site, ref, now));
+  }
+
+  /**
+   * One page of visitors() - only the requested page is formatted
+   */
+  visitorPage(site: MockSite, fromUtc: number, toUtc: number, now: number, pageNumber: number, pageSize: number): { records: MockVisitor[]; totalRecords: number } {
+    const refs = this.arrivalsBetween(site, fromUtc, toUtc, now);
+    return {
+      records: refs.slice((pageNumber - 1) * pageSize, pageNumber * pageSize).map(ref => this.visitor(site, ref, now)),
+      totalRecords: refs.length
+    };
+  }
+
+  /**
+   * Visitors who left within (fromUtc, toUtc], newest first - searched back far enough to cover long visits
+   */
+  departures(site: MockSite, fromUtc: number, toUtc: number): MockVisitor[] {
+    const lookback = this.pattern(site).dwellMinutes * 4 * MINUTE_MS;
+    const refs: VisitorRef[] = [];
+    this.forEachSlot(Math.floor((fromUtc - lookback) / SLOT_MS) * SLOT_MS, toUtc, slot => {
+      const count = this.arrivals(site, slot);
+      for (let index = 0; index < count; index++) {
+        const ref = this.visitorRef(site, slot, index);
+        const exitUtc = ref.entryUtc + ref.dwellMinutes * MINUTE_MS;
+        if (exitUtc > fromUtc && exitUtc <= toUtc) {
+          refs.push(ref);
+        }
+      }
+    });
+    return refs
+      .map(ref => this.visitor(site, ref, toUtc))
+      .sort((a, b) => (b.exitUtc as number) - (a.exitUtc as number));
+  }
+
+  /**
+   * Current occupancy with a little per-tick jitter, as a people counter would report it
+   */
+  liveOccupancy(site: MockSite, now: number): number {
+    const base = this.occupancyAt(site, now);
+    const jitter = 1 + 0.04 * (this.random(site.siteId, 'live', Math.floor(now / 1000)) - 0.5);
+    return Math.max(0, Math.round(base * jitter));
+  }
+
+  /**
+   * Occupancy at an instant: capacity x pattern load (0 outside operating hours)
+   */
+  occupancyAt(site: MockSite, utcMs: number): number {
+    return Math.round(site.capacity * this.load(site, utcMs));
+  }
+
+  // Arrivals in the 5-minute slot starting at slot: occupancy turned over every dwellMinutes
+  private arrivals(site: MockSite, slot: number): number {
+    const expected = this.occupancyAt(site, slot) * 5 / this.pattern(site).dwellMinutes;
+    return Math.floor(expected + this.random(site.siteId, 'arrivals', slot));
+  }
+
+  // Arrivals entered within [fromUtc, toUtc] (and not after now), newest first
+  private arrivalsBetween(site: MockSite, fromUtc: number, toUtc: number, now: number): VisitorRef[] {
+    const refs: VisitorRef[] = [];
+    this.forEachSlot(Math.floor(fromUtc / SLOT_MS) * SLOT_MS, toUtc, slot => {
+      const count = this.arrivals(site, slot);
+      for (let index = 0; index < count; index++) {
+        const ref = this.visitorRef(site, slot, index);
+        if (ref.entryUtc >= fromUtc && ref.entryUtc <= toUtc && ref.entryUtc <= now) {
+          refs.push(ref);
+        }
+      }
+    });
+    return refs.sort((a, b) => b.entryUtc - a.entryUtc);
+  }
+
+  // Timing of the index-th arrival in a slot - cheap, so filtering never formats records
+  private visitorRef(site: MockSite, slot: number, index: number): VisitorRef {
+    const entryUtc = slot + Math.floor(this.random(site.siteId, 'entry', slot, index) * SLOT_MS);
+    // Exponential visit length around the pattern average, capped at 4x
+    const spread = Math.min(4, -Math.log(1 - this.random(site.siteId, 'dwell', slot, index) * 0.98));
+    const dwellMinutes = Math.max(1, Math.round(spread * this.pattern(site).dwellMinutes));
+    return { slot, index, entryUtc, dwellMinutes };
+  }
+
+  private visitor(site: MockSite, ref: VisitorRef, now: number): MockVisitor {
+    const rand = (salt: string) => this.random(site.siteId, salt, ref.slot, ref.index);
+    const exitUtc = ref.entryUtc + ref.dwellMinutes * MINUTE_MS;
+    const left = exitUtc <= now;
+    return {
+      siteId: site.siteId,
+      personId: `${site.siteId}-${Math.floor(ref.slot / SLOT_MS)}-${ref.index}`,
+      personName: `${pick(FIRST_NAMES, rand('first'))} ${pick(LAST_NAMES, rand('last'))}`,
+      gender: rand('gender') < this.pattern(site).maleShare ? 'Male' : 'Female',
+      zoneName: pick(site.zones, rand('zone')),
+      entryUtc: ref.entryUtc,
+      entryLocal: this.localString(site, ref.entryUtc),
+      exitUtc: left ? exitUtc : null,
+      exitLocal: left ? this.localString(site, exitUtc) : null,
+      dwellMinutes: left ? ref.dwellMinutes : null
+    };
+  }
+
+  // Share of capacity in use (0..1) for the slot containing utcMs
+  private load(site: MockSite, utcMs: number): number {
+    const slot = Math.floor(utcMs / SLOT_MS) * SLOT_MS;
+    const key = `${site.siteId}|${slot}`;
+    const memo = this.loadMemo.get(key);
+    if (memo !== undefined) {
+      return memo;
+    }
+    const p = zonedParts(slot, site.timezone);
+    let load = 0;
+    if (isOpen(site.operatingHours, p.hour * 60 + p.minute)) {
+      const pattern = this.pattern(site);
+      const current = pattern.hourly[p.hour];
+      const next = pattern.hourly[(p.hour + 1) % 24];
+      const weekday = new Date(Date.UTC(p.year, p.month, p.day)).getUTCDay();
+      const noise = 0.9 + 0.2 * this.random(site.siteId, 'load', slot);
+      load = Math.min(1, (current + (next - current) * (p.minute / 60)) * pattern.weekday[weekday] * noise);
+    }
+    if (this.loadMemo.size >= MAX_MEMO_ENTRIES) {
+      this.loadMemo.clear();
+    }
+    this.loadMemo.set(key, load);
+    return load;
+  }
+
+  private pattern(site: MockSite): CrowdPattern {
+    return CROWD_PATTERNS[mockPatternOverride() || site.pattern];
+  }
+
+  private forEachSlot(fromUtc: number, toUtc: number, fn: (slot: number) => void): void {
+    for (let slot = Math.ceil(fromUtc / SLOT_MS) * SLOT_MS; slot < toUtc; slot += SLOT_MS) {
+      fn(slot);
+    }
+  }
+
+  private hourStarts(fromUtc: number, toUtc: number): number[] {
+    const hours: number[] = [];
+    for (let hour = Math.floor(fromUtc / HOUR_MS) * HOUR_MS; hour < toUtc; hour += HOUR_MS) {
+      hours.push(hour);
+    }
+    return hours;
+  }
+
+  // "DD/MM/YYYY HH:mm:ss" in the site's timezone - the backend's local format
+  private localString(site: MockSite, utcMs: number): string {
+    const p = zonedParts(utcMs, site.timezone);
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${pad(p.day)}/${pad(p.month + 1)}/${p.year} ${pad(p.hour)}:${pad(p.minute)}:${pad(p.second)}`;
+  }
+
+  // Uniform [0, 1) from the seed and the given key parts (FNV-1a with a final avalanche)
+  private random(...parts: (string | number)[]): number {
+    const key = `${this.seed}|${parts.join('|')}`;
+    let h = 2166136261;
+    for (let i = 0; i < key.length; i++) {
+      h = Math.imul(h ^ key.charCodeAt(i), 16777619);
+    }
+    h ^= h >>> 13;
+    h = Math.imul(h, 0x5bd1e995);
+    h ^= h >>> 15;
+    return (h >>> 0) / 4294967296;
+  }
+}
+
+// Same rules as OperatingHoursService: close <= open wraps past midnight, "00:00"-"24:00" is 24/7
+function isOpen(hours: OperatingHours, minutesOfDay: number): boolean {
+  const [openH, openM] = hours.open.split(':').map(Number);
+  const [closeH, closeM] = hours.close.split(':').map(Number);
+  const open = openH * 60 + openM;
+  const close = closeH * 60 + closeM;
+  if (close > open) {
+    return minutesOfDay >= open && minutesOfDay < close;
+  }
+  return minutesOfDay >= open || minutesOfDay < close;
+}
+
+function pick<T>(items: T[], unit: number): T {
+  return items[Math.floor(unit * items.length) % items.length];
+}
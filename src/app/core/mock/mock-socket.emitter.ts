@@ -0,0 +1,86 @@
+import { MockDataGenerator, MockVisitor } from './mock-data.generator';
+import {
+  MOCK_CRITICAL_LOAD,
+  MOCK_LIVE_INTERVAL_MS,
+  MOCK_MAX_ALERTS_PER_TICK,
+  MOCK_WARNING_LOAD,
+  MockSite
+} from '../config/mock-backend.config';
+
+/**
+ * Stand-in for the Socket.IO server in mock mode
+ * Every tick emits live_occupancy for the selected site and alert events for the
+ * visitors who entered or left since the previous tick, in the backend's payload shapes
+ */
+export class MockSocketEmitter {
+  private generator = new MockDataGenerator();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastTick = 0;
+
+  /**
+   * @param siteId - read on every tick, so site changes are followed without a restart
+   */
+  constructor(
+    private emit: (event: string, data: unknown) => void,
+    private siteId: () => string | null
+  ) {}
+
+  get running(): boolean {
+    return this.timer !== null;
+  }
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.lastTick = Date.now();
+    console.log('✅ MockSocketEmitter: Simulating live_occupancy and alert events');
+    // First reading right away, like a fresh socket connection
+    this.tick();
+    this.timer = setInterval(() => this.tick(), MOCK_LIVE_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    const site = this.generator.site(this.siteId());
+    const occupancy = this.generator.liveOccupancy(site, now);
+    this.emit('live_occupancy', { siteId: site.siteId, siteOccupancy: occupancy, ts: now });
+
+    const severity = occupancy >= site.capacity * MOCK_CRITICAL_LOAD ? 'critical'
+      : occupancy >= site.capacity * MOCK_WARNING_LOAD ? 'warning' : 'info';
+    const entries = this.generator.visitors(site, this.lastTick + 1, now, now)
+      .map(visitor => ({ visitor, direction: 'zone-entry', ts: visitor.entryUtc }));
+    const exits = this.generator.departures(site, this.lastTick, now)
+      .map(visitor => ({ visitor, direction: 'zone-exit', ts: visitor.exitUtc as number }));
+    // Oldest first, so the newest event ends up on top of the notification list
+    [...entries, ...exits]
+      .sort((a, b) => b.ts - a.ts)
+      .slice(0, MOCK_MAX_ALERTS_PER_TICK)
+      .reverse()
+      .forEach(({ visitor, direction, ts }) => this.emit('alert', this.alertPayload(site, visitor, direction, ts, severity)));
+    this.lastTick = now;
+  }
+
+  private alertPayload(site: MockSite, visitor: MockVisitor, direction: string, ts: number, severity: string) {
+    return {
+      eventId: `${visitor.personId}-${direction}`,
+      siteId: site.siteId,
+      siteName: site.name,
+      zoneName: visitor.zoneName,
+      personId: visitor.personId,
+      personName: visitor.personName,
+      gender: visitor.gender,
+      direction,
+      actionType: direction === 'zone-entry' ? 'entry' : 'exit',
+      severity,
+      ts
+    };
+  }
+}
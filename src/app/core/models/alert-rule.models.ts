@@ -0,0 +1,43 @@
+// ============================================
+// ALERT RULE MODELS
+// Rules defined by venue managers and evaluated in the browser by
+// AlertRuleEvaluatorService (see alert-rules.config.ts for defaults).
+// ============================================
+
+import { AlertSeverity } from './socket.models';
+
+/**
+ * What a rule watches
+ * occupancyPercent   - live occupancy as % of the rule's capacity (live_occupancy stream)
+ * footfallVsBaseline - footfall so far this hour vs the same part of the hour on previous
+ *                      days, as % change (e.g. -50 = half the usual)
+ * visitorDwell       - minutes a visitor still inside has stayed (entry-exit records)
+ */
+export type AlertRuleMetric = 'occupancyPercent' | 'footfallVsBaseline' | 'visitorDwell';
+
+export type AlertRuleComparator = 'above' | 'below';
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  siteId: string | null;          // null = whichever site is selected
+  metric: AlertRuleMetric;
+  comparator: AlertRuleComparator; // visitorDwell is always 'above'
+  threshold: number;              // %, % change or minutes - see AlertRuleMetric
+  capacity: number | null;        // occupancyPercent only: head count that is 100%
+  baselineDays: number;           // footfallVsBaseline only: previous days averaged
+  forMinutes: number;             // Condition must hold this long before the alert (0 = at once)
+  cooldownMinutes: number;        // Minimum time between two alerts of the rule
+  hysteresis: number;             // After an alert, re-arms only once the value is this far back past the threshold
+  severity: AlertSeverity;
+}
+
+/**
+ * Evaluation state of one rule at one site
+ */
+export interface AlertRuleState {
+  armed: boolean;                 // False after an alert until the value clears threshold ± hysteresis
+  conditionSince: number | null;  // When the condition started to hold (epoch ms)
+  lastFiredAt: number | null;
+}
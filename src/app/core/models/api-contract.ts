@@ -0,0 +1,216 @@
+// ============================================
+// API CONTRACT VALIDATION
+// Runtime checks that turn malformed backend payloads into explicit
+// ApiContractError instances instead of silent zeros on the dashboard.
+// Each parse* function returns a fully typed model or throws.
+// ============================================
+
+import {
+  Site,
+  OperatingHours,
+  FootfallResponse,
+  DwellResponse,
+  OccupancyResponse,
+  OccupancyBucket,
+  DemographicsResponse,
+  DemographicsBucket,
+  EntryExitPage,
+  EntryExitRecord,
+  AnalyticsWindow
+} from './api.models';
+
+/**
+ * Raised when a backend response does not match the expected contract
+ */
+export class ApiContractError extends Error {
+  override readonly name = 'ApiContractError';
+
+  constructor(
+    readonly endpoint: string,
+    readonly path: string,
+    readonly expected: string,
+    readonly received: unknown
+  ) {
+    super(`${endpoint}: expected ${expected} at "${path}", received ${describe(received)}`);
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string "${value.length > 40 ? value.slice(0, 40) + '…' : value}"`;
+  return typeof value;
+}
+
+type Json = Record<string, unknown>;
+
+function expectObject(endpoint: string, path: string, value: unknown): Json {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ApiContractError(endpoint, path, 'object', value);
+  }
+  return value as Json;
+}
+
+function expectArray(endpoint: string, path: string, value: unknown): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new ApiContractError(endpoint, path, 'array', value);
+  }
+  return value;
+}
+
+// Backend sometimes serializes numbers as strings (e.g. "12.5") - accept those, reject anything else
+function expectNumber(endpoint: string, path: string, value: unknown): number {
+  const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof num !== 'number' || !Number.isFinite(num)) {
+    throw new ApiContractError(endpoint, path, 'number', value);
+  }
+  return num;
+}
+
+function optionalNumber(endpoint: string, path: string, value: unknown): number | undefined {
+  return value === undefined || value === null ? undefined : expectNumber(endpoint, path, value);
+}
+
+function expectString(endpoint: string, path: string, value: unknown): string {
+  if (typeof value !== 'string') {
+    throw new ApiContractError(endpoint, path, 'string', value);
+  }
+  return value;
+}
+
+function optionalString(endpoint: string, path: string, value: unknown): string | undefined {
+  return value === undefined || value === null ? undefined : expectString(endpoint, path, value);
+}
+
+function parseWindow(endpoint: string, obj: Json): AnalyticsWindow {
+  return {
+    siteId: optionalString(endpoint, 'siteId', obj['siteId']) ?? '',
+    fromUtc: expectNumber(endpoint, 'fromUtc', obj['fromUtc']),
+    toUtc: expectNumber(endpoint, 'toUtc', obj['toUtc'])
+  };
+}
+
+const HH_MM = /^([01]\d|2[0-3]):[0-5]\d$|^24:00$/;
+
+function optionalOperatingHours(endpoint: string, path: string, value: unknown): OperatingHours | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const obj = expectObject(endpoint, path, value);
+  const open = expectString(endpoint, `${path}.open`, obj['open']);
+  const close = expectString(endpoint, `${path}.close`, obj['close']);
+  if (!HH_MM.test(open)) {
+    throw new ApiContractError(endpoint, `${path}.open`, '"HH:mm" time', open);
+  }
+  if (!HH_MM.test(close)) {
+    throw new ApiContractError(endpoint, `${path}.close`, '"HH:mm" time', close);
+  }
+  return { open, close };
+}
+
+export function parseSites(raw: unknown): Site[] {
+  const endpoint = '/api/sites';
+  return expectArray(endpoint, '$', raw).map((item, i) => {
+    const obj = expectObject(endpoint, `[${i}]`, item);
+    const siteId = expectString(endpoint, `[${i}].siteId`, obj['siteId']);
+    return {
+      siteId,
+      name: optionalString(endpoint, `[${i}].name`, obj['name']) || siteId,
+      city: optionalString(endpoint, `[${i}].city`, obj['city']),
+      country: optionalString(endpoint, `[${i}].country`, obj['country']),
+      timezone: optionalString(endpoint, `[${i}].timezone`, obj['timezone']),
+      operatingHours: optionalOperatingHours(endpoint, `[${i}].operatingHours`, obj['operatingHours'])
+    };
+  });
+}
+
+export function parseFootfall(raw: unknown): FootfallResponse {
+  const endpoint = '/api/analytics/footfall';
+  const obj = expectObject(endpoint, '$', raw);
+  return {
+    ...parseWindow(endpoint, obj),
+    footfall: expectNumber(endpoint, 'footfall', obj['footfall'])
+  };
+}
+
+export function parseDwell(raw: unknown): DwellResponse {
+  const endpoint = '/api/analytics/dwell';
+  const obj = expectObject(endpoint, '$', raw);
+  return {
+    ...parseWindow(endpoint, obj),
+    avgDwellMinutes: expectNumber(endpoint, 'avgDwellMinutes', obj['avgDwellMinutes']),
+    dwellRecords: expectNumber(endpoint, 'dwellRecords', obj['dwellRecords'])
+  };
+}
+
+export function parseOccupancy(raw: unknown): OccupancyResponse {
+  const endpoint = '/api/analytics/occupancy';
+  const obj = expectObject(endpoint, '$', raw);
+  const buckets: OccupancyBucket[] = expectArray(endpoint, 'buckets', obj['buckets']).map((item, i) => {
+    const bucket = expectObject(endpoint, `buckets[${i}]`, item);
+    return {
+      utc: expectNumber(endpoint, `buckets[${i}].utc`, bucket['utc']),
+      local: expectString(endpoint, `buckets[${i}].local`, bucket['local']),
+      avg: expectNumber(endpoint, `buckets[${i}].avg`, bucket['avg'])
+    };
+  });
+  return {
+    ...parseWindow(endpoint, obj),
+    timezone: optionalString(endpoint, 'timezone', obj['timezone']),
+    buckets
+  };
+}
+
+export function parseDemographics(raw: unknown): DemographicsResponse {
+  const endpoint = '/api/analytics/demographics';
+  const obj = expectObject(endpoint, '$', raw);
+  const buckets: DemographicsBucket[] = expectArray(endpoint, 'buckets', obj['buckets']).map((item, i) => {
+    const bucket = expectObject(endpoint, `buckets[${i}]`, item);
+    return {
+      utc: expectNumber(endpoint, `buckets[${i}].utc`, bucket['utc']),
+      local: expectString(endpoint, `buckets[${i}].local`, bucket['local']),
+      male: expectNumber(endpoint, `buckets[${i}].male`, bucket['male']),
+      female: expectNumber(endpoint, `buckets[${i}].female`, bucket['female'])
+    };
+  });
+  return {
+    ...parseWindow(endpoint, obj),
+    timezone: optionalString(endpoint, 'timezone', obj['timezone']),
+    buckets,
+    totalMale: optionalNumber(endpoint, 'totalMale', obj['totalMale']),
+    totalFemale: optionalNumber(endpoint, 'totalFemale', obj['totalFemale'])
+  };
+}
+
+function parseEntryExitRecord(endpoint: string, path: string, raw: unknown): EntryExitRecord {
+  const obj = expectObject(endpoint, path, raw);
+  // personId may be numeric in some backends - keep it as a string for tracking
+  const personId = obj['personId'] ?? obj['id'];
+  return {
+    personId: personId === undefined || personId === null ? undefined : String(personId),
+    personName: optionalString(endpoint, `${path}.personName`, obj['personName']),
+    gender: optionalString(endpoint, `${path}.gender`, obj['gender']),
+    zoneName: optionalString(endpoint, `${path}.zoneName`, obj['zoneName']),
+    entryUtc: optionalNumber(endpoint, `${path}.entryUtc`, obj['entryUtc']) ?? null,
+    entryLocal: optionalString(endpoint, `${path}.entryLocal`, obj['entryLocal']) ?? null,
+    exitUtc: optionalNumber(endpoint, `${path}.exitUtc`, obj['exitUtc']) ?? null,
+    exitLocal: optionalString(endpoint, `${path}.exitLocal`, obj['exitLocal']) ?? null,
+    dwellMinutes: optionalNumber(endpoint, `${path}.dwellMinutes`, obj['dwellMinutes']) ?? null
+  };
+}
+
+export function parseEntryExitPage(raw: unknown): EntryExitPage {
+  const endpoint = '/api/analytics/entry-exit';
+  const obj = expectObject(endpoint, '$', raw);
+  // Backend has shipped both spellings - fold them into records/totalRecords here, once
+  const recordsKey = obj['records'] !== undefined ? 'records' : 'data';
+  const totalKey = obj['totalRecords'] !== undefined ? 'totalRecords' : 'total';
+  const records = expectArray(endpoint, recordsKey, obj[recordsKey])
+    .map((item, i) => parseEntryExitRecord(endpoint, `${recordsKey}[${i}]`, item));
+  return {
+    records,
+    totalRecords: expectNumber(endpoint, totalKey, obj[totalKey]),
+    pageNumber: optionalNumber(endpoint, 'pageNumber', obj['pageNumber']),
+    pageSize: optionalNumber(endpoint, 'pageSize', obj['pageSize'])
+  };
+}
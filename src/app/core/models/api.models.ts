@@ -0,0 +1,142 @@
+// ============================================
+// API DOMAIN MODELS
+// Typed shapes for every backend endpoint used by ApiService.
+// Responses are validated at runtime by api-contract.ts before they
+// reach components, so these types can be trusted by consumers.
+// ============================================
+
+/**
+ * Daily opening window of a site, as "HH:mm" wall-clock times
+ * close <= open means the site closes after midnight; "00:00"-"24:00" is open 24/7
+ */
+export interface OperatingHours {
+  open: string;
+  close: string;
+}
+
+/**
+ * Site returned by GET /api/sites
+ */
+export interface Site {
+  siteId: string;
+  name: string;
+  city?: string;
+  country?: string;
+  timezone?: string;
+  operatingHours?: OperatingHours;
+}
+
+/**
+ * Request body shared by all analytics endpoints
+ */
+export interface AnalyticsRequest {
+  siteId: string;
+  fromUtc: number;
+  toUtc: number;
+}
+
+/**
+ * Fields common to every analytics response
+ */
+export interface AnalyticsWindow {
+  siteId: string;
+  fromUtc: number;
+  toUtc: number;
+}
+
+/**
+ * POST /api/analytics/footfall
+ */
+export interface FootfallResponse extends AnalyticsWindow {
+  footfall: number;
+}
+
+/**
+ * POST /api/analytics/dwell
+ */
+export interface DwellResponse extends AnalyticsWindow {
+  avgDwellMinutes: number;
+  dwellRecords: number;
+}
+
+/**
+ * One time bucket of POST /api/analytics/occupancy
+ * local format: "DD/MM/YYYY HH:mm:ss" in the site's timezone
+ */
+export interface OccupancyBucket {
+  utc: number;
+  local: string;
+  avg: number;
+}
+
+export interface OccupancyResponse extends AnalyticsWindow {
+  timezone?: string;
+  buckets: OccupancyBucket[];
+}
+
+/**
+ * One time bucket of POST /api/analytics/demographics
+ */
+export interface DemographicsBucket {
+  utc: number;
+  local: string;
+  male: number;
+  female: number;
+}
+
+export interface DemographicsResponse extends AnalyticsWindow {
+  timezone?: string;
+  buckets: DemographicsBucket[];
+  // Totals are optional - consumers aggregate from buckets when missing
+  totalMale?: number;
+  totalFemale?: number;
+}
+
+/**
+ * One visitor record of POST /api/analytics/entry-exit
+ * entryLocal/exitLocal format: "DD/MM/YYYY HH:mm:ss"
+ */
+export interface EntryExitRecord {
+  personId?: string;
+  personName?: string;
+  gender?: string;
+  zoneName?: string;
+  entryUtc?: number | null;
+  entryLocal?: string | null;
+  exitUtc?: number | null;
+  exitLocal?: string | null;
+  dwellMinutes?: number | null;
+}
+
+export interface EntryExitRequest extends AnalyticsRequest {
+  pageNumber: number;
+  pageSize: number;
+}
+
+/**
+ * Normalized page of entry-exit records
+ * Backend may send records/data and totalRecords/total - the contract
+ * layer folds both spellings into this single shape.
+ */
+export interface EntryExitPage {
+  records: EntryExitRecord[];
+  totalRecords: number;
+  pageNumber?: number;
+  pageSize?: number;
+}
+
+/**
+ * Combined result of ApiService.getSummaryCardsBatch
+ */
+export interface SummaryCardsBatch {
+  footfall: FootfallResponse | null;
+  dwell: DwellResponse | null;
+}
+
+/**
+ * Combined result of ApiService.getChartsBatch
+ */
+export interface ChartsBatch {
+  occupancy: OccupancyResponse | null;
+  demographics: DemographicsResponse | null;
+}
@@ -0,0 +1,135 @@
+// ============================================
+// SOCKET EVENT NORMALIZATION
+// Live payloads have drifted over backend versions (siteOccupancy vs
+// count vs a bare number, zoneName vs zone vs zoneId, ...). Unlike the
+// REST parse* functions these never throw - a live stream must not die
+// on one odd message. Unusable payloads come back as null and are dropped.
+// ============================================
+
+import { AlertDirection, AlertEvent, AlertSeverity, LiveFootfallEvent, LiveOccupancyEvent, SocketEventMap } from './socket.models';
+
+type Json = Record<string, unknown>;
+
+function asObject(value: unknown): Json | null {
+  // Some emitters wrap the payload in a one-element array
+  const item = Array.isArray(value) ? value[0] : value;
+  return item !== null && typeof item === 'object' && !Array.isArray(item) ? item as Json : null;
+}
+
+function toNumber(value: unknown): number | null {
+  const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? num : null;
+}
+
+// First non-empty string (numbers are accepted as IDs)
+function firstString(obj: Json, keys: string[]): string | null {
+  for (const key of keys) {
+    const value = obj[key];
+    if (typeof value === 'string' && value.trim() !== '') {
+      return value;
+    }
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return String(value);
+    }
+  }
+  return null;
+}
+
+// Epoch ms from ms, seconds or an ISO string - receipt time if none is usable
+function toTimestamp(value: unknown): number {
+  const num = toNumber(value);
+  if (num !== null) {
+    return num < 1e12 ? num * 1000 : num;
+  }
+  const parsed = typeof value === 'string' ? Date.parse(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : Date.now();
+}
+
+// Property names seen for the occupancy value, in order of preference (siteOccupancy is current)
+const OCCUPANCY_KEYS = ['siteOccupancy', 'count', 'occupancy', 'value', 'liveOccupancy', 'avg', 'current', 'total', 'number'];
+
+export function normalizeLiveOccupancy(raw: unknown): LiveOccupancyEvent | null {
+  let occupancy = toNumber(Array.isArray(raw) ? raw[0] : raw);
+  const obj = asObject(raw);
+  if (occupancy === null && obj) {
+    occupancy = OCCUPANCY_KEYS.map(key => toNumber(obj[key])).find(value => value !== null) ?? null;
+  }
+  if (occupancy === null || occupancy < 0) {
+    return null;
+  }
+  return {
+    siteId: obj ? firstString(obj, ['siteId', 'site']) : null,
+    occupancy,
+    ts: toTimestamp(obj?.['ts'] ?? obj?.['timestamp']),
+    raw
+  };
+}
+
+export function normalizeLiveFootfall(raw: unknown): LiveFootfallEvent | null {
+  const obj = asObject(raw);
+  const footfall = obj ? toNumber(obj['footfall'] ?? obj['count'] ?? obj['value']) : toNumber(raw);
+  if (footfall === null || footfall < 0) {
+    return null;
+  }
+  return {
+    siteId: obj ? firstString(obj, ['siteId', 'site']) : null,
+    footfall,
+    fromUtc: obj ? toNumber(obj['fromUtc']) : null,
+    toUtc: obj ? toNumber(obj['toUtc']) : null,
+    ts: toTimestamp(obj?.['ts'] ?? obj?.['timestamp']),
+    raw
+  };
+}
+
+function alertDirection(direction: string, actionType: string): AlertDirection | null {
+  // direction ("zone-entry" / "zone-exit") wins, actionType is the fallback
+  for (const text of [direction, actionType]) {
+    if (text.includes('entry') || text.includes('enter') || text === 'in') {
+      return 'entry';
+    }
+    if (text.includes('exit') || text.includes('leave') || text === 'out') {
+      return 'exit';
+    }
+  }
+  return null;
+}
+
+function alertSeverity(value: string | null): AlertSeverity {
+  const severity = (value || '').toLowerCase();
+  if (severity === 'critical' || severity === 'high' || severity === 'error') {
+    return 'critical';
+  }
+  if (severity === 'warning' || severity === 'warn' || severity === 'medium') {
+    return 'warning';
+  }
+  return 'info';
+}
+
+export function normalizeAlert(raw: unknown): AlertEvent | null {
+  const obj = asObject(raw);
+  if (!obj) {
+    return null;
+  }
+  const actionType = (firstString(obj, ['actionType', 'type', 'action', 'eventType', 'event']) || '').toLowerCase().trim();
+  const direction = (firstString(obj, ['direction']) || '').toLowerCase().trim();
+  return {
+    eventId: firstString(obj, ['eventId', 'id', '_id']),
+    siteId: firstString(obj, ['siteId', 'site']),
+    siteName: firstString(obj, ['siteName', 'site', 'siteId']),
+    zoneName: firstString(obj, ['zoneName', 'zone', 'zoneId']),
+    personId: firstString(obj, ['personId', 'visitorId']),
+    personName: firstString(obj, ['personName', 'name']),
+    direction: alertDirection(direction, actionType),
+    actionType,
+    severity: alertSeverity(firstString(obj, ['severity', 'level'])),
+    ts: toTimestamp(obj['ts'] ?? obj['timestamp']),
+    raw
+  };
+}
+
+// Normalizer per typed event - SocketService applies these in listen()
+export const SOCKET_EVENT_NORMALIZERS: { [K in keyof SocketEventMap]: (raw: unknown) => SocketEventMap[K] | null } = {
+  live_occupancy: normalizeLiveOccupancy,
+  live_footfall: normalizeLiveFootfall,
+  alert: normalizeAlert
+};
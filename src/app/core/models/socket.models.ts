@@ -0,0 +1,78 @@
+// ============================================
+// SOCKET.IO EVENT MODELS
+// Typed payloads of the live events, as produced by the normalizers in
+// socket-contract.ts. SocketService.listen() returns these for the names in
+// SocketEventMap; any other event name is passed through untyped.
+// ============================================
+
+/**
+ * Every typed event names its site - listen() drops events of other sites
+ */
+export interface SiteScopedEvent {
+  siteId: string | null;  // null when the backend omits it (single-site deployments)
+}
+
+/**
+ * live_occupancy - people currently inside a site
+ */
+export interface LiveOccupancyEvent extends SiteScopedEvent {
+  occupancy: number;      // Non-negative head count
+  ts: number;             // Epoch ms (receipt time when the payload has none)
+  raw: unknown;
+}
+
+/**
+ * live_footfall - visitors so far in a window (today's, when produced by the polling fallback)
+ */
+export interface LiveFootfallEvent extends SiteScopedEvent {
+  footfall: number;
+  fromUtc: number | null;  // Window the count covers, when known
+  toUtc: number | null;
+  ts: number;
+  raw: unknown;
+}
+
+export type AlertDirection = 'entry' | 'exit';
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+/**
+ * alert - a person entering or leaving a zone
+ */
+export interface AlertEvent extends SiteScopedEvent {
+  eventId: string | null;         // Backend event ID, used for de-duplication
+  siteName: string | null;
+  zoneName: string | null;
+  personId: string | null;
+  personName: string | null;
+  direction: AlertDirection | null; // null when neither direction nor actionType says
+  actionType: string;             // Backend action/event type, lower-cased ('' if absent)
+  severity: AlertSeverity;
+  ts: number;                     // Epoch ms (receipt time when the payload has none)
+  raw: unknown;
+}
+
+// Event name -> normalized payload
+export interface SocketEventMap {
+  live_occupancy: LiveOccupancyEvent;
+  live_footfall: LiveFootfallEvent;
+  alert: AlertEvent;
+}
+
+export type SocketEventName = keyof SocketEventMap;
+
+/**
+ * Connection lifecycle exposed by SocketService.connectionState$
+ * connecting   - first handshake in progress
+ * connected    - live (mock emitter running counts as connected)
+ * reconnecting - connection lost, Socket.IO is retrying
+ * auth-failed  - handshake rejected and the token could not be renewed
+ * offline      - browser offline, or the socket was closed (logout)
+ */
+export type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'auth-failed' | 'offline';
+
+export interface ConnectionState {
+  status: ConnectionStatus;
+  since: number;            // Epoch ms when the current status was entered
+  attempt: number;          // Reconnection attempt while reconnecting, else 0
+  latencyMs: number | null; // Last measured round trip, null when unknown
+}
@@ -0,0 +1,345 @@
+import { Injectable, NgZone, OnDestroy } from '@angular/core';
+import { Router } from '@angular/router';
+import { BehaviorSubject, Subscription } from 'rxjs';
+import { NotificationService, AlertRecord, impersonalMessage, isReplayedAlert } from './notification.service';
+import { PermissionService } from './permission.service';
+import { CrossTabSyncService } from './cross-tab-sync.service';
+import { ALERTS_LEADER_LOCK } from '../config/cross-tab.config';
+import { AlertSeverity } from '../models/socket.models';
+import {
+  ALARM_FAVICON,
+  ALARM_FLASH_INTERVAL_MS,
+  ALARM_SETTINGS_KEY,
+  AlarmSettings,
+  AlarmSound,
+  DEFAULT_ALARM_SETTINGS
+} from '../config/alarm.config';
+
+export type DesktopPermission = NotificationPermission | 'unsupported';
+
+// Tone sequences of each alarm sound: [Hz, start s, duration s, waveform, end Hz for a sweep]
+const SOUNDS: Record<Exclude<AlarmSound, 'none'>, [number, number, number, OscillatorType, number?][]> = {
+  chime: [[880, 0, 0.3, 'sine'], [660, 0.25, 0.45, 'sine']],
+  beep: [[1000, 0, 0.12, 'square'], [1000, 0.2, 0.12, 'square'], [1000, 0.4, 0.12, 'square']],
+  siren: [[600, 0, 0.6, 'sawtooth', 1200], [1200, 0.6, 0.6, 'sawtooth', 600], [600, 1.2, 0.6, 'sawtooth', 1200], [1200, 1.8, 0.6, 'sawtooth', 600]]
+};
+
+const UNLOCK_EVENTS = ['pointerdown', 'keydown'];
+
+/**
+ * Makes new alerts noticeable when the operator isn't looking at the app:
+ * alarm sounds per severity (Web Audio - no sound files), opt-in desktop notifications,
+ * and a flashing tab title / favicon
+ * Critical alerts repeat until acknowledged; quiet hours silence the others
+ * Sounds and desktop notifications come from one tab (Web Lock ALERTS_LEADER_LOCK, the tab
+ * that also raises rule alerts); every tab flashes its own title
+ */
+@Injectable({ providedIn: 'root' })
+export class AlarmService implements OnDestroy {
+  private settingsSubject = new BehaviorSubject<AlarmSettings>(this.read());
+  private pendingCritical = new Map<string, AlertRecord>(); // Not acknowledged yet
+  private unseen = 0; // Warning / critical alerts received while the tab was hidden
+  private subscriptions: Subscription[] = [];
+  private repeatTimer: ReturnType<typeof setInterval> | null = null;
+  private flashTimer: ReturnType<typeof setInterval> | null = null;
+  private flashOn = false;
+  private leader = false; // Holds ALERTS_LEADER_LOCK - plays sounds and shows desktop notifications
+  private originalTitle = '';
+  private flashTitle = ''; // Title last set by the flash
+  private originalFavicon: string | null = null;
+  private audio: AudioContext | null = null;
+  // Browsers only allow audio after a user gesture - resume on the first one
+  private unlockListener = () => this.audio?.resume().catch(() => {});
+  private visibilityListener = () => {
+    if (!document.hidden) {
+      this.unseen = 0;
+      this.updateFlash();
+    }
+  };
+
+  settings$ = this.settingsSubject.asObservable();
+
+  constructor(
+    private notifications: NotificationService,
+    private permissions: PermissionService,
+    private tabSync: CrossTabSyncService,
+    private router: Router,
+    private zone: NgZone
+  ) {}
+
+  ngOnDestroy(): void {
+    this.stop();
+    this.audio?.close().catch(() => {});
+  }
+
+  get settings(): AlarmSettings {
+    return this.settingsSubject.value;
+  }
+
+  get desktopPermission(): DesktopPermission {
+    return typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+  }
+
+  /**
+   * Start reacting to new alerts (idempotent)
+   */
+  start(): void {
+    if (this.subscriptions.length) {
+      return;
+    }
+    this.subscriptions.push(
+      this.notifications.added$.subscribe(alert => this.onAlert(alert)),
+      // Acknowledged here, in the bell, the Alerts page or another tab
+      this.notifications.alerts$.subscribe(() => this.dropAcknowledged()),
+      this.tabSync.lock(ALERTS_LEADER_LOCK).subscribe(leader => {
+        this.leader = leader;
+        this.updateRepeat(true);
+      })
+    );
+    document.addEventListener('visibilitychange', this.visibilityListener);
+    UNLOCK_EVENTS.forEach(event => window.addEventListener(event, this.unlockListener, { capture: true, passive: true }));
+  }
+
+  stop(): void {
+    this.subscriptions.forEach(sub => sub.unsubscribe());
+    this.subscriptions = [];
+    document.removeEventListener('visibilitychange', this.visibilityListener);
+    UNLOCK_EVENTS.forEach(event => window.removeEventListener(event, this.unlockListener, { capture: true }));
+    this.pendingCritical.clear();
+    this.unseen = 0;
+    this.leader = false;
+    this.updateRepeat();
+    this.updateFlash();
+  }
+
+  updateSettings(settings: AlarmSettings): void {
+    localStorage.setItem(ALARM_SETTINGS_KEY, JSON.stringify(settings));
+    this.settingsSubject.next(settings);
+    this.updateRepeat(true);
+  }
+
+  /**
+   * Ask the browser for desktop notification permission (must run from a click)
+   */
+  async requestDesktopPermission(): Promise<DesktopPermission> {
+    if (typeof Notification === 'undefined') {
+      return 'unsupported';
+    }
+    return Notification.requestPermission();
+  }
+
+  // Settings "test" button - ignores quiet hours
+  testSound(sound: AlarmSound): void {
+    this.play(sound);
+  }
+
+  private onAlert(alert: AlertRecord): void {
+    if (isReplayedAlert(alert)) {
+      return; // Devtools replay - not a real alarm
+    }
+    const severity = normalizeSeverity(alert.severity);
+    const config = this.settings.severities[severity];
+
+    if (severity === 'critical') {
+      this.pendingCritical.set(alert.id, alert);
+      this.updateRepeat();
+    } else if (this.isQuietHours()) {
+      return;
+    }
+    if (severity !== 'info' && document.hidden) {
+      this.unseen++;
+    }
+    if (this.leader) {
+      this.play(config.sound);
+      if (config.desktop) {
+        this.showDesktop(alert, severity);
+      }
+    }
+    this.updateFlash();
+  }
+
+  private dropAcknowledged(): void {
+    if (this.pendingCritical.size === 0) {
+      return;
+    }
+    const open = new Set(this.notifications.getHistory().filter(alert => !alert.acknowledgedAt).map(alert => alert.id));
+    [...this.pendingCritical.keys()].filter(id => !open.has(id)).forEach(id => this.pendingCritical.delete(id));
+    this.updateRepeat();
+    this.updateFlash();
+  }
+
+  // Critical alarm repeats while any critical alert is unacknowledged (restart: interval changed)
+  private updateRepeat(restart = false): void {
+    const seconds = this.settings.criticalRepeatSeconds;
+    const shouldRepeat = this.leader && this.pendingCritical.size > 0 && seconds > 0;
+    if (this.repeatTimer && (!shouldRepeat || restart)) {
+      clearInterval(this.repeatTimer);
+      this.repeatTimer = null;
+    }
+    if (!shouldRepeat || this.repeatTimer) {
+      return;
+    }
+    this.zone.runOutsideAngular(() => {
+      this.repeatTimer = setInterval(() => {
+        const config = this.settings.severities.critical;
+        const latest = [...this.pendingCritical.values()].pop();
+        this.play(config.sound);
+        if (config.desktop && latest) {
+          this.showDesktop(latest, 'critical', true);
+        }
+      }, seconds * 1000);
+    });
+  }
+
+  private showDesktop(alert: AlertRecord, severity: AlertSeverity, renotify = false): void {
+    // Only useful when the operator isn't looking at the app
+    if (this.desktopPermission !== 'granted' || !document.hidden) {
+      return;
+    }
+    try {
+      // Person names are personal data - entries.view only, as in the bell
+      const message = this.permissions.has('entries.view') ? alert.message : impersonalMessage(alert);
+      const options: NotificationOptions & { renotify?: boolean } = {
+        body: [message, alert.zone, alert.site].filter(Boolean).join(' · '),
+        tag: alert.id, // A repeat replaces the previous notification
+        requireInteraction: severity === 'critical',
+        renotify
+      };
+      const notification = new Notification(`${severity === 'critical' ? 'Critical alert' : 'Alert'} - ${alert.site || 'Crowd Management'}`, options);
+      notification.onclick = () => {
+        window.focus();
+        notification.close();
+        this.zone.run(() => this.router.navigate(['/alerts'], { queryParamsHandling: 'preserve' }));
+      };
+    } catch (err) {
+      // Some mobile browsers only allow notifications from a service worker
+      console.warn('⚠️ AlarmService: Desktop notification failed:', {
+        error: err,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  private play(sound: AlarmSound): void {
+    const volume = Math.min(Math.max(this.settings.volume, 0), 1);
+    const context = sound === 'none' || volume === 0 ? null : this.audioContext();
+    if (!context) {
+      return;
+    }
+    const now = context.currentTime;
+    for (const [frequency, start, duration, type, endFrequency] of SOUNDS[sound as Exclude<AlarmSound, 'none'>]) {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = type;
+      oscillator.frequency.setValueAtTime(frequency, now + start);
+      if (endFrequency) {
+        oscillator.frequency.linearRampToValueAtTime(endFrequency, now + start + duration);
+      }
+      // Square and sawtooth waves sound much louder than sine at the same gain
+      const peak = volume * (type === 'sine' ? 0.5 : 0.15);
+      gain.gain.setValueAtTime(0.0001, now + start);
+      gain.gain.exponentialRampToValueAtTime(peak, now + start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, now + start + duration);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(now + start);
+      oscillator.stop(now + start + duration + 0.05);
+    }
+  }
+
+  private audioContext(): AudioContext | null {
+    if (!this.audio && typeof AudioContext !== 'undefined') {
+      this.audio = new AudioContext();
+    }
+    if (this.audio?.state === 'suspended') {
+      this.audio.resume().catch(() => {});
+    }
+    return this.audio;
+  }
+
+  // Flash while critical alerts are unacknowledged or alerts arrived while the tab was hidden
+  private updateFlash(): void {
+    const count = this.pendingCritical.size || this.unseen;
+    if (count === 0) {
+      if (this.flashTimer) {
+        clearInterval(this.flashTimer);
+        this.flashTimer = null;
+        this.setFlash(false, 0);
+      }
+      return;
+    }
+    if (!this.flashTimer) {
+      this.originalTitle = document.title;
+      this.originalFavicon = this.faviconLink()?.href ?? null;
+      this.zone.runOutsideAngular(() => {
+        this.flashTimer = setInterval(() => this.setFlash(!this.flashOn, this.pendingCritical.size || this.unseen), ALARM_FLASH_INTERVAL_MS);
+      });
+    }
+  }
+
+  private setFlash(on: boolean, count: number): void {
+    // The app changed the title while flashing (navigation) - that one is restored instead
+    if (document.title !== this.flashTitle) {
+      this.originalTitle = document.title;
+    }
+    this.flashOn = on;
+    const label = this.pendingCritical.size ? 'Critical alert' : 'New alert';
+    this.flashTitle = on ? `(${count}) ${label}` : this.originalTitle;
+    document.title = this.flashTitle;
+    const link = this.faviconLink();
+    if (link && this.originalFavicon !== null) {
+      link.href = on ? ALARM_FAVICON : this.originalFavicon;
+    }
+  }
+
+  private faviconLink(): HTMLLinkElement | null {
+    return document.querySelector<HTMLLinkElement>('link[rel~="icon"]');
+  }
+
+  private isQuietHours(): boolean {
+    const { enabled, from, to } = this.settings.quietHours;
+    const start = minutesOfDay(from);
+    const end = minutesOfDay(to);
+    if (!enabled || start === null || end === null || start === end) {
+      return false;
+    }
+    const now = new Date();
+    const current = now.getHours() * 60 + now.getMinutes();
+    // from > to spans midnight, e.g. 22:00 - 07:00
+    return start < end ? current >= start && current < end : current >= start || current < end;
+  }
+
+  private read(): AlarmSettings {
+    try {
+      const stored = JSON.parse(localStorage.getItem(ALARM_SETTINGS_KEY) || 'null');
+      if (stored && typeof stored === 'object') {
+        // Settings saved by an older version may lack newer fields
+        return {
+          ...DEFAULT_ALARM_SETTINGS,
+          ...stored,
+          severities: { ...DEFAULT_ALARM_SETTINGS.severities, ...stored.severities },
+          quietHours: { ...DEFAULT_ALARM_SETTINGS.quietHours, ...stored.quietHours }
+        };
+      }
+    } catch {
+      // Unreadable - defaults
+    }
+    return DEFAULT_ALARM_SETTINGS;
+  }
+}
+
+// Backend severities have also been high / medium / low
+function normalizeSeverity(severity: string): AlertSeverity {
+  const value = (severity || '').toLowerCase();
+  if (value === 'critical' || value === 'high') {
+    return 'critical';
+  }
+  if (value === 'warning' || value === 'medium') {
+    return 'warning';
+  }
+  return 'info';
+}
+
+function minutesOfDay(value: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value || '');
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+}
@@ -0,0 +1,117 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { AuthService } from './auth.service';
+import { SocketService } from './socket.service';
+import { NotificationService, Alert } from './notification.service';
+import { AlertEvent } from '../models/socket.models';
+
+// Event IDs remembered for de-duplication (oldest forgotten first)
+const RECENT_EVENT_IDS = 500;
+
+/**
+ * The app's one consumer of socket 'alert' events: turns each into a NotificationService
+ * alert (entry/exit, zone, person, readable message) whichever page is open
+ * Events repeated by the socket (reconnect replay) are dropped by eventId
+ */
+@Injectable({ providedIn: 'root' })
+export class AlertIngestionService implements OnDestroy {
+  private subscription?: Subscription;
+  private recentEventIds = new Set<string>();
+
+  constructor(
+    private socket: SocketService,
+    private auth: AuthService,
+    private notifications: NotificationService
+  ) {}
+
+  ngOnDestroy(): void {
+    this.stop();
+  }
+
+  /**
+   * Start receiving alerts (idempotent)
+   */
+  start(): void {
+    if (this.subscription) {
+      return;
+    }
+    this.subscription = this.socket.listen('alert').subscribe({
+      next: event => this.ingest(event),
+      error: err => {
+        const errorInfo = {
+          type: err.name || 'Socket Error',
+          message: err.message,
+          error: err,
+          event: 'alert',
+          timestamp: new Date().toISOString()
+        };
+        console.error('❌ AlertIngestion: Socket subscription error (alert):', errorInfo);
+      }
+    });
+  }
+
+  stop(): void {
+    this.subscription?.unsubscribe();
+    this.subscription = undefined;
+    this.recentEventIds.clear();
+  }
+
+  private ingest(event: AlertEvent): void {
+    if (event.eventId) {
+      if (this.recentEventIds.has(event.eventId)) {
+        return;
+      }
+      this.recentEventIds.add(event.eventId);
+      if (this.recentEventIds.size > RECENT_EVENT_IDS) {
+        // Sets iterate in insertion order - the first is the oldest
+        this.recentEventIds.delete(this.recentEventIds.values().next().value as string);
+      }
+    }
+
+    // Backend handles all filtering (by date, site, etc.) - every alert it sends is kept
+    const alert = this.toAlert(event);
+    this.notifications.addAlert(alert);
+
+    if (alert.severity === 'critical') {
+      console.warn('⚠️ Critical alert received:', alert.message);
+    }
+  }
+
+  private toAlert(event: AlertEvent): Alert {
+    // Payload already normalized by SocketService (socket-contract.ts)
+    const zone = event.zoneName || 'Unknown Zone';
+    const site = event.siteName || 'Unknown Site';
+    const personName = event.personName || '';
+    const isEntry = event.direction === 'entry';
+    const isExit = event.direction === 'exit';
+
+    // Build a more readable message
+    let message = '';
+    if (personName) {
+      // Default to exit if we can't determine
+      message = isEntry ? `${personName} entered ${zone}` : `${personName} exited ${zone}`;
+    } else {
+      // No person name, use action type and zone
+      message = isEntry ? `ENTRY: ${zone}` : isExit ? `EXIT: ${zone}` : zone;
+      if (site && site !== 'Unknown Site' && !site.includes('-') && !site.match(/^[0-9a-f]{8}-/i)) {
+        message += ` (${site})`;
+      }
+    }
+
+    // Payloads without a siteId belong to the selected site (the socket room we're in)
+    const siteId = event.siteId || this.auth.getSiteId() || undefined;
+
+    return {
+      eventId: event.eventId || undefined,
+      // Normalized actionType for the notification bell
+      actionType: isEntry ? 'entry' : 'exit',
+      zone,
+      site,
+      siteId,
+      severity: event.severity,
+      timestamp: event.ts,
+      message,
+      raw: event.raw
+    };
+  }
+}
@@ -0,0 +1,414 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { EMPTY, Observable, Subscription, catchError, exhaustMap, expand, forkJoin, map, merge, of, reduce, takeLast, tap, timer } from 'rxjs';
+import { ApiService } from './api.service';
+import { AuthService } from './auth.service';
+import { SiteService } from './site.service';
+import { SocketService } from './socket.service';
+import { NotificationService } from './notification.service';
+import { CrossTabSyncService } from './cross-tab-sync.service';
+import { AlertRuleService } from './alert-rule.service';
+import { TimezoneService, zonedParts } from './timezone.service';
+import { AlertRule, AlertRuleMetric, AlertRuleState } from '../models/alert-rule.models';
+import { LiveOccupancyEvent } from '../models/socket.models';
+import { EntryExitRecord } from '../models/api.models';
+import {
+  ALERT_RULE_STATE_KEY,
+  RULE_ANALYTICS_INTERVAL_MS,
+  RULE_DWELL_LOOKBACK_MS,
+  RULE_DWELL_MAX_PAGES,
+  RULE_DWELL_PAGE_SIZE,
+  RULE_MAX_BASELINE_DAYS
+} from '../config/alert-rules.config';
+import { ALERTS_LEADER_LOCK } from '../config/cross-tab.config';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+// Footfall early in the hour is too small to compare
+const MIN_FOOTFALL_ELAPSED_MS = 5 * MINUTE_MS;
+
+// Alert raised by a rule, before it becomes a NotificationService alert
+interface RuleAlert {
+  message: string;
+  id: string;        // Stored as eventId - identical across tabs for the same alert
+  zone: string;
+  details: Record<string, unknown>;
+}
+
+// What survives a reload (localStorage) - without it a reloaded tab would fire every held rule again
+interface StoredRuleState {
+  states: [string, AlertRuleState][];
+  firedVisits: [string, number][];
+  ruleVersions: [string, string][];
+}
+
+/**
+ * Evaluates AlertRuleService's rules for the selected site and raises alerts through
+ * NotificationService
+ * - occupancyPercent on every live_occupancy event (socket or polling fallback)
+ * - footfallVsBaseline / visitorDwell against the analytics API every RULE_ANALYTICS_INTERVAL_MS
+ *
+ * Only one tab evaluates (Web Lock ALERTS_LEADER_LOCK); the next tab takes over when it
+ * closes. Rule state is kept in localStorage, so alert IDs - derived from when the condition
+ * started - and cooldowns carry over to a reloaded tab or the next leader
+ */
+@Injectable({ providedIn: 'root' })
+export class AlertRuleEvaluatorService implements OnDestroy {
+  private states = new Map<string, AlertRuleState>(); // `${ruleId}|${siteId}`
+  private firedVisits = new Map<string, number>(); // Dwell alerts raised, key -> entry time
+  private ruleVersions = new Map<string, string>(); // Rule JSON - an edited rule starts over
+  private siteNames = new Map<string, string>();
+  // Footfall of past days' hours - `${siteId}|${hour start}` -> count; past hours don't change
+  private baselineHours = new Map<string, { start: number; footfall: number }>();
+  private savedState = ''; // Last JSON written to localStorage
+  private leaderSubscription?: Subscription;
+  private subscriptions: Subscription[] = [];
+
+  constructor(
+    private rules: AlertRuleService,
+    private socket: SocketService,
+    private api: ApiService,
+    private auth: AuthService,
+    private siteService: SiteService,
+    private timezone: TimezoneService,
+    private notifications: NotificationService,
+    private tabSync: CrossTabSyncService
+  ) {}
+
+  ngOnDestroy(): void {
+    this.stop();
+  }
+
+  /**
+   * Start evaluating - in this tab once it holds the leader lock (idempotent)
+   */
+  start(): void {
+    if (this.leaderSubscription) {
+      return;
+    }
+    this.leaderSubscription = this.tabSync.lock(ALERTS_LEADER_LOCK).subscribe(leader => {
+      if (leader) {
+        this.startEvaluating();
+      } else {
+        this.stopEvaluating();
+      }
+    });
+  }
+
+  stop(): void {
+    this.leaderSubscription?.unsubscribe();
+    this.leaderSubscription = undefined;
+    this.stopEvaluating();
+  }
+
+  private startEvaluating(): void {
+    if (this.subscriptions.length) {
+      return;
+    }
+    this.restoreState();
+    this.subscriptions.push(
+      this.rules.rules$.subscribe(rules => this.forgetChangedRules(rules)),
+      this.api.getSites().subscribe(sites => sites.forEach(site => this.siteNames.set(site.siteId, site.name))),
+      this.socket.listen('live_occupancy').subscribe(event => this.evaluateOccupancy(event)),
+      // First slot boundary from now, then every interval; a site switch evaluates the new site at once
+      merge(
+        timer(0),
+        timer(RULE_ANALYTICS_INTERVAL_MS - (Date.now() % RULE_ANALYTICS_INTERVAL_MS), RULE_ANALYTICS_INTERVAL_MS),
+        this.siteService.siteChange$
+      ).pipe(
+        // exhaustMap: a slow evaluation is never overlapped by the next one
+        exhaustMap(() => this.evaluateAnalytics())
+      ).subscribe()
+    );
+  }
+
+  /**
+   * Forget the stored rule state (sign-out - dwell state holds visitor IDs)
+   */
+  clearState(): void {
+    this.stop();
+    localStorage.removeItem(ALERT_RULE_STATE_KEY);
+  }
+
+  // Memory only - the stored state stays for the next leader
+  private stopEvaluating(): void {
+    this.subscriptions.forEach(sub => sub.unsubscribe());
+    this.subscriptions = [];
+    this.states.clear();
+    this.firedVisits.clear();
+    this.ruleVersions.clear();
+    this.baselineHours.clear();
+    this.savedState = '';
+  }
+
+  private evaluateOccupancy(event: LiveOccupancyEvent): void {
+    const siteId = event.siteId || this.auth.getSiteId();
+    if (!siteId) {
+      return;
+    }
+    for (const rule of this.activeRules(siteId, 'occupancyPercent')) {
+      if (!rule.capacity) {
+        continue;
+      }
+      const percent = Math.round(event.occupancy / rule.capacity * 100);
+      this.evaluate(rule, siteId, percent, event.ts, since => ({
+        message: `Occupancy at ${percent}% of capacity (${event.occupancy} / ${rule.capacity})${this.heldText(rule)}`,
+        id: `rule:${rule.id}:${siteId}:${since}`,
+        zone: 'Site-wide',
+        details: { occupancy: event.occupancy, capacity: rule.capacity }
+      }));
+    }
+  }
+
+  // One evaluation slot: footfall and dwell rules of the selected site
+  private evaluateAnalytics(): Observable<unknown> {
+    const siteId = this.auth.getSiteId();
+    if (!siteId) {
+      return of(null);
+    }
+    // Slot start, not the actual time - the same in every tab
+    const slot = Math.floor(Date.now() / RULE_ANALYTICS_INTERVAL_MS) * RULE_ANALYTICS_INTERVAL_MS;
+    return forkJoin([
+      this.evaluateFootfall(siteId, slot),
+      this.evaluateDwell(siteId)
+    ]).pipe(
+      catchError(err => {
+        // Request policies already fall back to null - this only guards against the unexpected
+        console.error('❌ AlertRuleEvaluator: Evaluation failed:', {
+          siteId,
+          message: err?.message,
+          error: err,
+          timestamp: new Date().toISOString()
+        });
+        return of(null);
+      })
+    );
+  }
+
+  // Footfall so far this hour vs the same share of that hour on previous days
+  private evaluateFootfall(siteId: string, slot: number): Observable<unknown> {
+    const rules = this.activeRules(siteId, 'footfallVsBaseline');
+    const now = Date.now();
+    const { year, month, day, hour } = zonedParts(now, this.timezone.siteZone(siteId));
+    const hourStart = this.timezone.toUtc(siteId, { year, month, day }, hour * 60);
+    if (rules.length === 0 || now - hourStart < MIN_FOOTFALL_ELAPSED_MS) {
+      return of(null);
+    }
+    const days = Math.max(...rules.map(rule => rule.baselineDays));
+    // Same hour k days ago (a DST switch in between shifts one baseline day by an hour);
+    // each past hour is fetched once and kept - only the current hour is queried every slot
+    const pastHours = Array.from({ length: days }, (_, k) => hourStart - (k + 1) * DAY_MS);
+    this.pruneBaselineHours(hourStart);
+    const missing = pastHours.filter(start => !this.baselineHours.has(`${siteId}|${start}`));
+    return forkJoin([
+      this.api.getFootfall(hourStart, now).pipe(takeLast(1), map(res => res?.footfall ?? null)),
+      ...missing.map(start => this.api.getFootfall(start, start + HOUR_MS).pipe(
+        takeLast(1),
+        tap(res => {
+          // Failed requests (null) are retried next slot
+          if (typeof res?.footfall === 'number') {
+            this.baselineHours.set(`${siteId}|${start}`, { start, footfall: res.footfall });
+          }
+        })
+      ))
+    ]).pipe(
+      tap(([current]) => {
+        if (current === null || this.auth.getSiteId() !== siteId) {
+          return;
+        }
+        // Whole past hours, scaled to the part of this hour that has passed
+        const elapsedShare = (now - hourStart) / HOUR_MS;
+        for (const rule of rules) {
+          const known = pastHours.slice(0, rule.baselineDays)
+            .map(start => this.baselineHours.get(`${siteId}|${start}`)?.footfall)
+            .filter((v): v is number => v !== undefined);
+          const baseline = known.length ? known.reduce((sum, v) => sum + v, 0) / known.length * elapsedShare : 0;
+          if (baseline <= 0) {
+            continue; // Nothing to compare with (new site, closed at this hour)
+          }
+          const change = Math.round((current - baseline) / baseline * 100);
+          const direction = change < 0 ? `${-change}% below` : `${change}% above`;
+          this.evaluate(rule, siteId, change, slot, since => ({
+            message: `Footfall this hour ${direction} usual (${current} vs ${Math.round(baseline)})${this.heldText(rule)}`,
+            id: `rule:${rule.id}:${siteId}:${since}`,
+            zone: 'Site-wide',
+            details: { footfall: current, baseline: Math.round(baseline), baselineDays: known.length }
+          }));
+        }
+      })
+    );
+  }
+
+  // Visitors still inside past the rule's threshold - one alert per visit
+  private evaluateDwell(siteId: string): Observable<unknown> {
+    const rules = this.activeRules(siteId, 'visitorDwell');
+    if (rules.length === 0) {
+      return of(null);
+    }
+    const now = Date.now();
+    const shortest = Math.min(...rules.map(rule => rule.threshold)) * MINUTE_MS;
+    const fetchPage = (pageNumber: number) =>
+      this.api.getEntryExit(pageNumber, RULE_DWELL_PAGE_SIZE, now - RULE_DWELL_LOOKBACK_MS, now - shortest).pipe(
+        takeLast(1),
+        map(page => ({ pageNumber, page }))
+      );
+    // Every page - at a busy site most visitors still inside are past page 1
+    return fetchPage(1).pipe(
+      expand(({ pageNumber, page }) =>
+        pageNumber * RULE_DWELL_PAGE_SIZE < page.totalRecords && pageNumber < RULE_DWELL_MAX_PAGES && page.records.length > 0
+          ? fetchPage(pageNumber + 1)
+          : EMPTY
+      ),
+      reduce((records, { page }) => records.concat(page.records), [] as EntryExitRecord[]),
+      tap(records => {
+        if (this.auth.getSiteId() !== siteId) {
+          return;
+        }
+        this.pruneFiredVisits(now);
+        for (const record of records) {
+          if (!record.entryUtc || record.exitUtc || record.exitLocal) {
+            continue;
+          }
+          const minutes = Math.floor((now - record.entryUtc) / MINUTE_MS);
+          // Names are personal data - roles without entries.view see "Visitor" (impersonalMessage)
+          const visitor = record.personName || record.personId || 'Visitor';
+          for (const rule of rules) {
+            const key = `${rule.id}|${siteId}|${record.personId || visitor}|${record.entryUtc}`;
+            if (minutes <= rule.threshold || this.firedVisits.has(key)) {
+              continue;
+            }
+            this.firedVisits.set(key, record.entryUtc);
+            this.raise(rule, siteId, minutes, now, {
+              message: `${visitor} inside for ${Math.floor(minutes / 60)}h ${minutes % 60}m`,
+              id: `rule:${rule.id}:${siteId}:${record.personId || visitor}:${record.entryUtc}`,
+              zone: record.zoneName || 'Site-wide',
+              details: { personId: record.personId, personName: record.personName, entryUtc: record.entryUtc, dwellMinutes: minutes }
+            });
+          }
+        }
+        this.saveState();
+      })
+    );
+  }
+
+  /**
+   * Threshold check with duration, hysteresis and cooldown
+   * After an alert the rule is disarmed until the value is back past threshold ∓ hysteresis,
+   * and never fires again within cooldownMinutes
+   */
+  private evaluate(rule: AlertRule, siteId: string, value: number, at: number, describe: (since: number) => RuleAlert): void {
+    const key = `${rule.id}|${siteId}`;
+    const state = this.states.get(key) || { armed: true, conditionSince: null, lastFiredAt: null };
+    const above = rule.comparator === 'above';
+    const breached = above ? value > rule.threshold : value < rule.threshold;
+
+    if (!state.armed && (above ? value <= rule.threshold - rule.hysteresis : value >= rule.threshold + rule.hysteresis)) {
+      state.armed = true;
+    }
+    if (!breached) {
+      state.conditionSince = null;
+    } else if (state.conditionSince === null) {
+      state.conditionSince = at;
+    }
+
+    const held = state.conditionSince !== null && at - state.conditionSince >= rule.forMinutes * MINUTE_MS;
+    const coolingDown = state.lastFiredAt !== null && at - state.lastFiredAt < rule.cooldownMinutes * MINUTE_MS;
+    if (held && state.armed && !coolingDown) {
+      this.raise(rule, siteId, value, at, describe(state.conditionSince as number));
+      state.armed = false;
+      state.lastFiredAt = at;
+    }
+    this.states.set(key, state);
+    this.saveState();
+  }
+
+  private raise(rule: AlertRule, siteId: string, value: number, at: number, alert: RuleAlert): void {
+    this.notifications.addAlert({
+      eventId: alert.id,
+      actionType: 'rule',
+      zone: alert.zone,
+      site: this.siteNames.get(siteId) || siteId,
+      siteId,
+      severity: rule.severity,
+      timestamp: at,
+      message: alert.message,
+      raw: {
+        eventId: alert.id,
+        source: 'rule',
+        ruleId: rule.id,
+        ruleName: rule.name,
+        metric: rule.metric,
+        comparator: rule.comparator,
+        threshold: rule.threshold,
+        value,
+        ...alert.details,
+        ts: at
+      }
+    });
+  }
+
+  private activeRules(siteId: string, metric: AlertRuleMetric): AlertRule[] {
+    return this.rules.rules.filter(rule => rule.enabled && rule.metric === metric && (!rule.siteId || rule.siteId === siteId));
+  }
+
+  // " for 5 min" when the rule requires the condition to hold
+  private heldText(rule: AlertRule): string {
+    return rule.forMinutes > 0 ? ` for ${rule.forMinutes} min` : '';
+  }
+
+  private forgetChangedRules(rules: AlertRule[]): void {
+    const versions = new Map(rules.map(rule => [rule.id, JSON.stringify(rule)]));
+    this.ruleVersions.forEach((version, id) => {
+      if (versions.get(id) !== version) {
+        [...this.states.keys()].filter(key => key.startsWith(`${id}|`)).forEach(key => this.states.delete(key));
+        [...this.firedVisits.keys()].filter(key => key.startsWith(`${id}|`)).forEach(key => this.firedVisits.delete(key));
+      }
+    });
+    this.ruleVersions = versions;
+    this.saveState();
+  }
+
+  // Past hours older than any baseline can reach
+  private pruneBaselineHours(hourStart: number): void {
+    const oldest = hourStart - RULE_MAX_BASELINE_DAYS * DAY_MS;
+    this.baselineHours.forEach((entry, key) => {
+      if (entry.start < oldest) {
+        this.baselineHours.delete(key);
+      }
+    });
+  }
+
+  private restoreState(): void {
+    try {
+      const stored: StoredRuleState | null = JSON.parse(localStorage.getItem(ALERT_RULE_STATE_KEY) || 'null');
+      if (stored) {
+        this.states = new Map(stored.states);
+        this.firedVisits = new Map(stored.firedVisits);
+        this.ruleVersions = new Map(stored.ruleVersions);
+      }
+    } catch {
+      // Unreadable - start over
+    }
+  }
+
+  private saveState(): void {
+    const state: StoredRuleState = {
+      states: [...this.states],
+      firedVisits: [...this.firedVisits],
+      ruleVersions: [...this.ruleVersions]
+    };
+    const json = JSON.stringify(state);
+    if (json !== this.savedState) {
+      this.savedState = json;
+      localStorage.setItem(ALERT_RULE_STATE_KEY, json);
+    }
+  }
+
+  private pruneFiredVisits(now: number): void {
+    this.firedVisits.forEach((entryUtc, key) => {
+      if (now - entryUtc > RULE_DWELL_LOOKBACK_MS) {
+        this.firedVisits.delete(key);
+      }
+    });
+  }
+}
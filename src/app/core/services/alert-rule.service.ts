@@ -0,0 +1,89 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Subscription } from 'rxjs';
+import { CrossTabSyncService } from './cross-tab-sync.service';
+import { AlertRule } from '../models/alert-rule.models';
+import { ALERT_RULES_STORAGE_KEY, DEFAULT_ALERT_RULES, RULE_MAX_BASELINE_DAYS } from '../config/alert-rules.config';
+
+/**
+ * Alert rule definitions (see AlertRuleEvaluatorService for evaluation)
+ * Kept in localStorage; other tabs are told about changes and reload them
+ */
+@Injectable({ providedIn: 'root' })
+export class AlertRuleService implements OnDestroy {
+  private rulesSubject = new BehaviorSubject<AlertRule[]>(this.read());
+  private tabSubscription: Subscription;
+
+  rules$ = this.rulesSubject.asObservable();
+
+  constructor(private tabSync: CrossTabSyncService) {
+    this.tabSubscription = this.tabSync.messages$.subscribe(message => {
+      if (message.type === 'alert-rules-changed') {
+        this.rulesSubject.next(this.read());
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.tabSubscription.unsubscribe();
+  }
+
+  get rules(): AlertRule[] {
+    return this.rulesSubject.value;
+  }
+
+  /**
+   * Create (no id) or replace a rule - values are clamped to what the evaluator supports
+   */
+  save(rule: Omit<AlertRule, 'id'> & { id?: string }): AlertRule {
+    const saved = this.sanitize({ ...rule, id: rule.id || `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}` });
+    const exists = this.rules.some(r => r.id === saved.id);
+    this.write(exists ? this.rules.map(r => r.id === saved.id ? saved : r) : [...this.rules, saved]);
+    return saved;
+  }
+
+  setEnabled(id: string, enabled: boolean): void {
+    this.write(this.rules.map(r => r.id === id ? { ...r, enabled } : r));
+  }
+
+  remove(id: string): void {
+    this.write(this.rules.filter(r => r.id !== id));
+  }
+
+  private sanitize(rule: AlertRule): AlertRule {
+    const nonNegative = (value: number) => Number.isFinite(value) ? Math.max(0, value) : 0;
+    return {
+      ...rule,
+      name: rule.name.trim() || 'Untitled rule',
+      comparator: rule.metric === 'visitorDwell' ? 'above' : rule.comparator,
+      threshold: Number.isFinite(rule.threshold) ? rule.threshold : 0,
+      capacity: rule.metric === 'occupancyPercent' && rule.capacity && rule.capacity > 0 ? Math.round(rule.capacity) : null,
+      baselineDays: Math.min(Math.max(Math.round(rule.baselineDays) || 1, 1), RULE_MAX_BASELINE_DAYS),
+      forMinutes: nonNegative(rule.forMinutes),
+      cooldownMinutes: nonNegative(rule.cooldownMinutes),
+      hysteresis: nonNegative(rule.hysteresis)
+    };
+  }
+
+  private read(): AlertRule[] {
+    const stored = localStorage.getItem(ALERT_RULES_STORAGE_KEY);
+    if (stored === null) {
+      return DEFAULT_ALERT_RULES;
+    }
+    try {
+      const parsed = JSON.parse(stored);
+      return Array.isArray(parsed) ? parsed : DEFAULT_ALERT_RULES;
+    } catch {
+      console.warn('⚠️ AlertRuleService: Stored rules are unreadable, using defaults:', {
+        key: ALERT_RULES_STORAGE_KEY,
+        timestamp: new Date().toISOString()
+      });
+      return DEFAULT_ALERT_RULES;
+    }
+  }
+
+  private write(rules: AlertRule[]): void {
+    localStorage.setItem(ALERT_RULES_STORAGE_KEY, JSON.stringify(rules));
+    this.rulesSubject.next(rules);
+    this.tabSync.publish({ type: 'alert-rules-changed' });
+  }
+}
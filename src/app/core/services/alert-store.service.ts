@@ -0,0 +1,145 @@
+import { Injectable } from '@angular/core';
+import { AlertRecord } from './notification.service';
+
+const DB_NAME = 'ks_alerts';
+const DB_VERSION = 1;
+const STORE = 'alerts';
+
+/**
+ * IndexedDB persistence for alert history (see NotificationService, which keeps
+ * the working copy in memory)
+ * Like PersistentCacheService every method resolves - storage is best-effort, and
+ * unavailable IndexedDB simply behaves as an empty history
+ */
+@Injectable({ providedIn: 'root' })
+export class AlertStoreService {
+  private db: Promise<IDBDatabase | null> | null = null;
+
+  async getAll(): Promise<AlertRecord[]> {
+    const db = await this.open();
+    if (!db) {
+      return [];
+    }
+    try {
+      return await request<AlertRecord[]>(db.transaction(STORE).objectStore(STORE).getAll());
+    } catch (err) {
+      this.logError('read', err);
+      return [];
+    }
+  }
+
+  /**
+   * Insert a new alert - an alert another tab already stored keeps its read/acknowledged state
+   */
+  async add(record: AlertRecord): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      return;
+    }
+    try {
+      await request(db.transaction(STORE, 'readwrite').objectStore(STORE).add(record));
+    } catch (err) {
+      if ((err as DOMException)?.name !== 'ConstraintError') {
+        this.logError('write', err);
+      }
+    }
+  }
+
+  // Save read/acknowledged changes
+  async update(records: AlertRecord[]): Promise<void> {
+    const db = await this.open();
+    if (!db || records.length === 0) {
+      return;
+    }
+    try {
+      const transaction = db.transaction(STORE, 'readwrite');
+      const store = transaction.objectStore(STORE);
+      records.forEach(record => store.put(record));
+      await complete(transaction);
+    } catch (err) {
+      this.logError('update', err);
+    }
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    const db = await this.open();
+    if (!db || ids.length === 0) {
+      return;
+    }
+    try {
+      const transaction = db.transaction(STORE, 'readwrite');
+      const store = transaction.objectStore(STORE);
+      ids.forEach(id => store.delete(id));
+      await complete(transaction);
+    } catch (err) {
+      this.logError('delete', err);
+    }
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      return;
+    }
+    try {
+      await request(db.transaction(STORE, 'readwrite').objectStore(STORE).clear());
+    } catch (err) {
+      this.logError('clear', err);
+    }
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase | null>(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+        try {
+          const req = indexedDB.open(DB_NAME, DB_VERSION);
+          req.onupgradeneeded = () => {
+            const store = req.result.createObjectStore(STORE, { keyPath: 'id' });
+            store.createIndex('receivedAt', 'receivedAt');
+          };
+          req.onsuccess = () => resolve(req.result);
+          req.onerror = () => {
+            this.logError('open', req.error);
+            resolve(null);
+          };
+          req.onblocked = () => resolve(null);
+        } catch (err) {
+          this.logError('open', err);
+          resolve(null);
+        }
+      });
+    }
+    return this.db;
+  }
+
+  private logError(operation: string, err: unknown): void {
+    const error = err as DOMException | undefined;
+    console.error('❌ AlertStore: IndexedDB operation failed:', {
+      operation,
+      type: error?.name || 'IndexedDB Error',
+      message: error?.message,
+      timestamp: new Date().toISOString()
+    });
+  }
+}
+
+// Promise wrapper for a single IDBRequest
+function request<T>(req: IDBRequest): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result as T);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Resolves once every request of a transaction is written
+function complete(transaction: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
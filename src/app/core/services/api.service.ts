@@ -1,105 +1,91 @@
 import { Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { Observable, forkJoin, tap, catchError, of, shareReplay, timeout, retry, delay } from 'rxjs';
+import { Observable, combineLatest, tap, catchError, of, shareReplay } from 'rxjs';
 import { environment } from '../../../environments/environment';
 import { AuthService } from './auth.service';
+import { RequestExecutor } from './request-executor.service';
+import { OperatingHoursService } from './operating-hours.service';
+import { TimezoneService } from './timezone.service';
+import {
+  SITES_POLICY,
+  FOOTFALL_POLICY,
+  DWELL_POLICY,
+  OCCUPANCY_POLICY,
+  DEMOGRAPHICS_POLICY,
+  ENTRY_EXIT_POLICY
+} from './request-policies';
+import {
+  Site,
+  AnalyticsRequest,
+  FootfallResponse,
+  DwellResponse,
+  OccupancyResponse,
+  DemographicsResponse,
+  EntryExitPage,
+  SummaryCardsBatch,
+  ChartsBatch
+} from '../models/api.models';
+import {
+  parseSites,
+  parseFootfall,
+  parseDwell,
+  parseOccupancy,
+  parseDemographics,
+  parseEntryExitPage
+} from '../models/api-contract';
 
 @Injectable({ providedIn: 'root' })
 export class ApiService {
   private base = environment.apiUrl;
-  private readonly REQUEST_TIMEOUT = 15000; // 15 seconds timeout (balanced: allows backend processing time while still detecting failures)
   // Cache sites API response to avoid repeated calls
-  private sitesCache$?: ReturnType<typeof this.createSitesCache>;
-  // Request deduplication: share observables to prevent duplicate requests
-  private footfallCache$?: ReturnType<typeof this.createFootfallCache>;
-  private dwellCache$?: ReturnType<typeof this.createDwellCache>;
-  private occupancyCache$?: ReturnType<typeof this.createOccupancyCache>;
-  private demographicsCache$?: ReturnType<typeof this.createDemographicsCache>;
-  // Entry-exit cache: keyed by pageNumber and pageSize for proper pagination caching
-  private entryExitCache = new Map<string, ReturnType<typeof this.createEntryExitCache>>();
-  
-  // OPTIMIZATION: Cache date calculations for current day to avoid repeated Date object creation
-  private cachedDayPayload: { day: number; fromUtc: number; toUtc: number } | null = null;
-  private readonly DAY_MS = 24 * 60 * 60 * 1000;
+  private sitesCache$?: Observable<Site[]>;
+  // Memoized "today" requests - cleared by clearCaches() on site change / logout
+  private footfallCache$?: Observable<FootfallResponse | null>;
+  private dwellCache$?: Observable<DwellResponse | null>;
+  private occupancyCache$?: Observable<OccupancyResponse | null>;
+  private demographicsCache$?: Observable<DemographicsResponse | null>;
+
+  // Malformed backend payloads are reported here so the UI can surface them
+  readonly contractErrors$ = this.executor.contractErrors$;
 
   constructor(
-    private http: HttpClient,
-    private auth: AuthService
+    private executor: RequestExecutor,
+    private auth: AuthService,
+    private operatingHours: OperatingHoursService,
+    private timezone: TimezoneService
   ) {}
 
-  private createSitesCache() {
-    return this.http.get<any[]>(`${this.base}/api/sites`).pipe(
-      tap(sites => {
-        // Response logged only for debugging - removed to reduce console noise
-        // If no siteId is set, use the first site from the list
-        // Note: SiteService notification is handled by LayoutComponent
-        // to avoid circular dependencies
-        if (!this.auth.getSiteId() && sites && sites.length > 0 && sites[0]?.siteId) {
-          this.auth.setSiteId(sites[0].siteId);
-        }
-      }),
-      catchError(error => {
-        const errorInfo = {
-          type: error.name || 'HTTP Error',
-          status: error.status,
-          statusText: error.statusText,
-          message: error.message,
-          error: error.error,
-          url: `${this.base}/api/sites`,
-          timestamp: new Date().toISOString()
-        };
-        console.error('❌ API ERROR: /api/sites', errorInfo);
-        return of([]);
-      }),
-      shareReplay(1)
-    );
-  }
-
-  getSites() {
+  getSites(): Observable<Site[]> {
     if (!this.sitesCache$) {
-      this.sitesCache$ = this.createSitesCache();
+      this.sitesCache$ = this.executor.get(`${this.base}/api/sites`, parseSites, SITES_POLICY).pipe(
+        tap(sites => {
+          // Make per-site operating hours and timezones available before any analytics request is built
+          this.operatingHours.registerSites(sites);
+          this.timezone.registerSites(sites);
+          // If no siteId is set, use the first site from the list
+          // Note: SiteService notification is handled by LayoutComponent
+          // to avoid circular dependencies
+          if (!this.auth.getSiteId() && sites.length > 0) {
+            this.auth.setSiteId(sites[0].siteId);
+          }
+        }),
+        shareReplay(1)
+      );
     }
     return this.sitesCache$;
   }
 
-  private payload(extra: any = {}) {
+  /**
+   * Default analytics window: the selected site's current operating day (in the site's timezone), up to now
+   */
+  private payload(): AnalyticsRequest {
     const now = Date.now();
     const siteId = this.auth.getSiteId();
-    
-    // OPTIMIZATION: Cache date calculations for the current day
-    // Only recalculate if we've moved to a new day
-    const currentDay = Math.floor(now / this.DAY_MS);
-    
-    if (!this.cachedDayPayload || this.cachedDayPayload.day !== currentDay) {
-      // For Overall Occupancy: use 8:00 to 18:00 (10 hours) as per prototype
-      // Use local time (user expects 8:00-18:00 in their timezone)
-      const today = new Date();
-      today.setHours(8, 0, 0, 0);
-      const fromUtc = today.getTime(); // This is already in UTC milliseconds
-      const endOfDay = new Date();
-      endOfDay.setHours(18, 0, 0, 0);
-      const toUtc = Math.min(now, endOfDay.getTime()); // End at 18:00 local time or current time, whichever is earlier
-      
-      this.cachedDayPayload = {
-        day: currentDay,
-        fromUtc,
-        toUtc
-      };
-    }
-    
-    // Use cached values but update toUtc with current time if it's today
-    const fromUtc = this.cachedDayPayload.fromUtc;
-    const endOfDay = new Date();
-    endOfDay.setHours(18, 0, 0, 0);
-    const toUtc = Math.min(now, endOfDay.getTime());
-    
-    const payload = {
+    const window = this.operatingHours.getCurrentWindow(siteId, now);
+    return {
       siteId: siteId || '',
-      fromUtc,
-      toUtc,
-      ...extra
+      fromUtc: window.fromUtc,
+      toUtc: Math.min(now, window.toUtc) // End at closing time or current time, whichever is earlier
     };
-    return payload;
   }
 
   private entryExitPayload(pageNumber: number, pageSize: number, fromUtc?: number, toUtc?: number) {
@@ -120,362 +106,90 @@ export class ApiService {
     };
   }
 
-  private createFootfallCache() {
-    const payload = this.payload();
-    return this.http.post<any>(`${this.base}/api/analytics/footfall`, payload).pipe(
-      timeout(this.REQUEST_TIMEOUT),
-      tap(res => {
-        if (res?.siteId) {
-          this.auth.setSiteId(res.siteId);
-        }
-      }),
-      catchError(err => {
-        // Log ALL errors including timeouts for debugging
-        const errorInfo = {
-          type: err.name || 'HTTP Error',
-          status: err.status,
-          statusText: err.statusText,
-          message: err.message,
-          error: err.error,
-          url: `${this.base}/api/analytics/footfall`,
-          timestamp: new Date().toISOString()
-        };
-        if (err.name === 'TimeoutError') {
-          console.error('⏱️ Footfall request timeout:', errorInfo);
-        } else {
-          console.error('❌ Footfall request failed:', errorInfo);
-        }
-        return of(null);
-      }),
-      shareReplay(1)
-    );
+  /**
+   * Build the request body for an explicit range, or today's default window
+   */
+  private analyticsPayload(fromUtc?: number, toUtc?: number): AnalyticsRequest {
+    const siteId = this.auth.getSiteId() || '';
+    if (fromUtc !== undefined && toUtc !== undefined) {
+      return { siteId, fromUtc, toUtc };
+    }
+    return this.payload();
   }
 
-  private createDwellCache() {
-    const payload = this.payload();
-    return this.http.post<any>(`${this.base}/api/analytics/dwell`, payload).pipe(
-      timeout(this.REQUEST_TIMEOUT),
-      tap(res => {
-        if (res?.siteId) {
-          this.auth.setSiteId(res.siteId);
-        }
-      }),
-      catchError(err => {
-        // Log ALL errors including timeouts for debugging
-        const errorInfo = {
-          type: err.name || 'HTTP Error',
-          status: err.status,
-          statusText: err.statusText,
-          message: err.message,
-          error: err.error,
-          url: `${this.base}/api/analytics/dwell`,
-          timestamp: new Date().toISOString()
-        };
-        if (err.name === 'TimeoutError') {
-          console.error('⏱️ Dwell request timeout:', errorInfo);
-        } else {
-          console.error('❌ Dwell request failed:', errorInfo);
-        }
-        return of(null);
-      }),
-      shareReplay(1)
-    );
+  // Backend echoes the resolved siteId - keep it in sync for subsequent requests
+  private rememberSiteId<T extends { siteId: string } | null>(): (source: Observable<T>) => Observable<T> {
+    return tap<T>(res => {
+      if (res?.siteId) {
+        this.auth.setSiteId(res.siteId);
+      }
+    });
   }
 
-  private createOccupancyCache() {
-    const payload = this.payload();
-    return this.http.post<any>(`${this.base}/api/analytics/occupancy`, payload).pipe(
-      timeout(this.REQUEST_TIMEOUT),
-      catchError(err => {
-        // Log ALL errors including timeouts and 404s for debugging
-        const errorInfo = {
-          type: err.name || 'HTTP Error',
-          status: err.status,
-          statusText: err.statusText,
-          message: err.message,
-          error: err.error,
-          url: `${this.base}/api/analytics/occupancy`,
-          timestamp: new Date().toISOString()
-        };
-        if (err.status === 404) {
-          console.warn('⚠️ Occupancy data not found (404):', errorInfo);
-        } else if (err.name === 'TimeoutError') {
-          console.error('⏱️ Occupancy request timeout:', errorInfo);
-        } else {
-          console.error('❌ Occupancy request failed:', errorInfo);
-        }
-        return of(null);
-      }),
-      shareReplay(1)
-    );
+  private requestFootfall(payload: AnalyticsRequest): Observable<FootfallResponse | null> {
+    return this.executor.post(`${this.base}/api/analytics/footfall`, payload, parseFootfall, FOOTFALL_POLICY)
+      .pipe(this.rememberSiteId());
   }
 
-  private createDemographicsCache() {
-    // Use 8:00 to 18:00 range for all charts
-    const payload = this.payload();
-    return this.http.post<any>(`${this.base}/api/analytics/demographics`, payload).pipe(
-      timeout(this.REQUEST_TIMEOUT),
-      catchError(err => {
-        // Log ALL errors including timeouts and 404s for debugging
-        const errorInfo = {
-          type: err.name || 'HTTP Error',
-          status: err.status,
-          statusText: err.statusText,
-          message: err.message,
-          error: err.error,
-          url: `${this.base}/api/analytics/demographics`,
-          timestamp: new Date().toISOString()
-        };
-        if (err.status === 404) {
-          console.warn('⚠️ Demographics data not found (404):', errorInfo);
-        } else if (err.name === 'TimeoutError') {
-          console.error('⏱️ Demographics request timeout:', errorInfo);
-        } else {
-          console.error('❌ Demographics request failed:', errorInfo);
-        }
-        return of(null);
-      }),
-      shareReplay(1)
-    );
+  private requestDwell(payload: AnalyticsRequest): Observable<DwellResponse | null> {
+    return this.executor.post(`${this.base}/api/analytics/dwell`, payload, parseDwell, DWELL_POLICY)
+      .pipe(this.rememberSiteId());
+  }
+
+  private requestOccupancy(payload: AnalyticsRequest): Observable<OccupancyResponse | null> {
+    return this.executor.post(`${this.base}/api/analytics/occupancy`, payload, parseOccupancy, OCCUPANCY_POLICY);
+  }
+
+  private requestDemographics(payload: AnalyticsRequest): Observable<DemographicsResponse | null> {
+    return this.executor.post(`${this.base}/api/analytics/demographics`, payload, parseDemographics, DEMOGRAPHICS_POLICY);
   }
 
-  getFootfall(fromUtc?: number, toUtc?: number) {
+  getFootfall(fromUtc?: number, toUtc?: number): Observable<FootfallResponse | null> {
     // If dates provided, create new request (bypass cache)
     if (fromUtc !== undefined && toUtc !== undefined) {
-      const payload = {
-        siteId: this.auth.getSiteId() || '',
-        fromUtc,
-        toUtc,
-      };
-      return this.http.post<any>(`${this.base}/api/analytics/footfall`, payload).pipe(
-        timeout(this.REQUEST_TIMEOUT),
-        catchError(err => {
-          // Log ALL errors including timeouts for debugging
-          const errorInfo = {
-            type: err.name || 'HTTP Error',
-            status: err.status,
-            statusText: err.statusText,
-            message: err.message,
-            error: err.error,
-            url: `${this.base}/api/analytics/footfall`,
-            timestamp: new Date().toISOString()
-          };
-          if (err.name === 'TimeoutError') {
-            console.error('⏱️ Footfall request timeout:', errorInfo);
-          } else {
-            console.error('❌ Footfall request failed:', errorInfo);
-          }
-          return of(null);
-        })
-      );
+      return this.requestFootfall(this.analyticsPayload(fromUtc, toUtc));
     }
     // Use cached version for default (today)
     if (!this.footfallCache$) {
-      this.footfallCache$ = this.createFootfallCache();
+      this.footfallCache$ = this.requestFootfall(this.analyticsPayload()).pipe(shareReplay(1));
     }
     return this.footfallCache$;
   }
 
-  getDwell(fromUtc?: number, toUtc?: number) {
-    // If dates provided, create new request (bypass cache)
+  getDwell(fromUtc?: number, toUtc?: number): Observable<DwellResponse | null> {
     if (fromUtc !== undefined && toUtc !== undefined) {
-      const payload = {
-        siteId: this.auth.getSiteId() || '',
-        fromUtc,
-        toUtc,
-      };
-      return this.http.post<any>(`${this.base}/api/analytics/dwell`, payload).pipe(
-        timeout(this.REQUEST_TIMEOUT),
-        catchError(err => {
-          // Log ALL errors including timeouts for debugging
-          const errorInfo = {
-            type: err.name || 'HTTP Error',
-            status: err.status,
-            statusText: err.statusText,
-            message: err.message,
-            error: err.error,
-            url: `${this.base}/api/analytics/dwell`,
-            timestamp: new Date().toISOString()
-          };
-          if (err.name === 'TimeoutError') {
-            console.error('⏱️ Dwell request timeout:', errorInfo);
-          } else {
-            console.error('❌ Dwell request failed:', errorInfo);
-          }
-          return of(null);
-        })
-      );
+      return this.requestDwell(this.analyticsPayload(fromUtc, toUtc));
     }
-    // Use cached version for default (today)
     if (!this.dwellCache$) {
-      this.dwellCache$ = this.createDwellCache();
+      this.dwellCache$ = this.requestDwell(this.analyticsPayload()).pipe(shareReplay(1));
     }
     return this.dwellCache$;
   }
 
-  private createEntryExitCache(pageNumber: number, pageSize: number, fromUtc?: number, toUtc?: number) {
-    const payload = this.entryExitPayload(pageNumber, pageSize, fromUtc, toUtc);
-    return this.http.post<any>(
-      `${this.base}/api/analytics/entry-exit`,
-      payload
-    ).pipe(
-      timeout(this.REQUEST_TIMEOUT),
-      catchError(err => {
-        // Log ALL errors including timeouts for debugging
-        const errorInfo = {
-          type: err.name || 'HTTP Error',
-          status: err.status,
-          statusText: err.statusText,
-          message: err.message,
-          error: err.error,
-          url: `${this.base}/api/analytics/entry-exit`,
-          pageNumber,
-          pageSize,
-          payload,
-          duration: '22+ seconds (backend issue)',
-          timestamp: new Date().toISOString()
-        };
-        if (err.name === 'TimeoutError') {
-          console.error('⏱️ Entry-exit request timeout after 15s:', errorInfo);
-          console.warn('⚠️ Backend is taking 22+ seconds to respond. This is a backend performance issue.');
-        } else {
-          console.error('❌ Entry-exit request failed:', errorInfo);
-        }
-        return of({ records: [], data: [], totalRecords: 0, total: 0 });
-      })
-      // Removed shareReplay - entry-exit data is time-sensitive and should not be cached
-    );
-  }
-
-  getEntryExit(pageNumber = 1, pageSize = 50, fromUtc?: number, toUtc?: number) {
-    // Entry-exit data is time-sensitive, so we can't cache by page number alone
-    // Each request gets fresh data to ensure accuracy
-    // Clear any existing cache for this page to ensure fresh data
-    const cacheKey = `${pageNumber}-${pageSize}-${fromUtc || 'default'}-${toUtc || 'default'}`;
-    if (this.entryExitCache.has(cacheKey)) {
-      this.entryExitCache.delete(cacheKey);
-    }
-    
-    // Create new request (bypass cache for time-sensitive data)
-    return this.createEntryExitCache(pageNumber, pageSize, fromUtc, toUtc);
-  }
-
-  getOccupancy(fromUtc?: number, toUtc?: number) {
-    // If dates provided, create new request (bypass cache)
+  getOccupancy(fromUtc?: number, toUtc?: number): Observable<OccupancyResponse | null> {
     if (fromUtc !== undefined && toUtc !== undefined) {
-      const payload = {
-        siteId: this.auth.getSiteId() || '',
-        fromUtc,
-        toUtc,
-      };
-      return this.http.post<any>(`${this.base}/api/analytics/occupancy`, payload).pipe(
-        timeout(this.REQUEST_TIMEOUT),
-        catchError(err => {
-          // Log ALL errors including timeouts and 404s for debugging
-          const errorInfo = {
-            type: err.name || 'HTTP Error',
-            status: err.status,
-            statusText: err.statusText,
-            message: err.message,
-            error: err.error,
-            url: `${this.base}/api/analytics/occupancy`,
-            timestamp: new Date().toISOString()
-          };
-          if (err.status === 404) {
-            console.warn('⚠️ Occupancy data not found (404):', errorInfo);
-          } else if (err.name === 'TimeoutError') {
-            console.error('⏱️ Occupancy request timeout:', errorInfo);
-          } else {
-            console.error('❌ Occupancy request failed:', errorInfo);
-          }
-          return of(null);
-        })
-      );
+      return this.requestOccupancy(this.analyticsPayload(fromUtc, toUtc));
     }
-    // Use cached version for default (today)
     if (!this.occupancyCache$) {
-      this.occupancyCache$ = this.createOccupancyCache();
+      this.occupancyCache$ = this.requestOccupancy(this.analyticsPayload()).pipe(shareReplay(1));
     }
     return this.occupancyCache$;
   }
 
-  getDemographics(fromUtc?: number, toUtc?: number) {
-    // If dates provided, create new request (bypass cache)
+  getDemographics(fromUtc?: number, toUtc?: number): Observable<DemographicsResponse | null> {
     if (fromUtc !== undefined && toUtc !== undefined) {
-      const payload = {
-        siteId: this.auth.getSiteId() || '',
-        fromUtc,
-        toUtc,
-      };
-      return this.http.post<any>(`${this.base}/api/analytics/demographics`, payload).pipe(
-        timeout(this.REQUEST_TIMEOUT),
-        catchError(err => {
-          // Log ALL errors including timeouts and 404s for debugging
-          const errorInfo = {
-            type: err.name || 'HTTP Error',
-            status: err.status,
-            statusText: err.statusText,
-            message: err.message,
-            error: err.error,
-            url: `${this.base}/api/analytics/demographics`,
-            timestamp: new Date().toISOString()
-          };
-          if (err.status === 404) {
-            console.warn('⚠️ Demographics data not found (404):', errorInfo);
-          } else if (err.name === 'TimeoutError') {
-            console.error('⏱️ Demographics request timeout:', errorInfo);
-          } else {
-            console.error('❌ Demographics request failed:', errorInfo);
-          }
-          return of(null);
-        })
-      );
+      return this.requestDemographics(this.analyticsPayload(fromUtc, toUtc));
     }
-    // Use cached version for default (today)
     if (!this.demographicsCache$) {
-      this.demographicsCache$ = this.createDemographicsCache();
+      this.demographicsCache$ = this.requestDemographics(this.analyticsPayload()).pipe(shareReplay(1));
     }
     return this.demographicsCache$;
   }
 
-  /**
-   * OPTIMIZED: Helper to create shared payload for batch requests
-   * Eliminates redundant payload creation across batch methods
-   */
-  private createSharedPayload(fromUtc?: number, toUtc?: number): { siteId: string; fromUtc: number; toUtc: number } {
-    const siteId = this.auth.getSiteId() || '';
-    if (fromUtc !== undefined && toUtc !== undefined) {
-      return { siteId, fromUtc, toUtc };
-    }
-    const defaultPayload = this.payload();
-    const result = { siteId, fromUtc: defaultPayload.fromUtc, toUtc: defaultPayload.toUtc };
-    return result;
-  }
-
-  /**
-   * OPTIMIZED: Reusable error handler for API requests
-   * Reduces code duplication across all error handlers
-   */
-  private handleApiError(err: any, endpoint: string, url: string): Observable<null> {
-    const errorInfo = {
-      type: err.name || 'HTTP Error',
-      status: err.status,
-      statusText: err.statusText,
-      message: err.message,
-      error: err.error,
-      url,
-      timestamp: new Date().toISOString()
-    };
-    
-    if (err.status === 404) {
-      console.warn(`⚠️ ${endpoint} data not found (404):`, errorInfo);
-    } else if (err.name === 'TimeoutError') {
-      console.error(`⏱️ ${endpoint} request timeout:`, errorInfo);
-    } else {
-      console.error(`❌ ${endpoint} request failed:`, errorInfo);
-    }
-    
-    return of(null);
+  getEntryExit(pageNumber = 1, pageSize = 50, fromUtc?: number, toUtc?: number): Observable<EntryExitPage> {
+    // Entry-exit data is time-sensitive - never memoized, but identical in-flight pages are deduplicated
+    const payload = this.entryExitPayload(pageNumber, pageSize, fromUtc, toUtc);
+    return this.executor.post(`${this.base}/api/analytics/entry-exit`, payload, parseEntryExitPage, ENTRY_EXIT_POLICY);
   }
 
   /**
@@ -485,81 +199,20 @@ export class ApiService {
    * @param toUtc End time in UTC milliseconds
    * @returns Observable with footfall and dwell data
    */
-  getSummaryCardsBatch(fromUtc?: number, toUtc?: number): Observable<{
-    footfall: any;
-    dwell: any;
-  }> {
-    const finalPayload = this.createSharedPayload(fromUtc, toUtc);
+  getSummaryCardsBatch(fromUtc?: number, toUtc?: number): Observable<SummaryCardsBatch> {
+    const payload = this.analyticsPayload(fromUtc, toUtc);
     
-    // Execute both requests in parallel using forkJoin for maximum speed
-    // Each observable handles its own errors and returns null if it fails
-    // forkJoin will complete successfully with null values for failed requests
-    return forkJoin({
-      footfall: this.http.post<any>(`${this.base}/api/analytics/footfall`, finalPayload).pipe(
-        timeout(this.REQUEST_TIMEOUT),
-        tap(res => {
-          // Response logged only for debugging - removed to reduce console noise
-          if (res?.siteId) {
-            this.auth.setSiteId(res.siteId);
-          }
-        }),
-        // OPTIMIZATION: Retry transient network errors (up to 1 retry with 500ms delay)
-        retry({
-          count: 1,
-          delay: (error, retryCount) => {
-            // Only retry on network errors or 5xx errors, not on 4xx or timeouts
-            if (error.name === 'TimeoutError' || (error.status && error.status >= 500)) {
-              return of(null).pipe(delay(500));
-            }
-            throw error;
-          }
-        }),
-        catchError(err => {
-          console.error('❌ API ERROR: /api/analytics/footfall', {
-            url: `${this.base}/api/analytics/footfall`,
-            error: err,
-            timestamp: new Date().toISOString()
-          });
-          return this.handleApiError(err, 'Footfall', `${this.base}/api/analytics/footfall`);
-        })
-      ),
-      dwell: this.http.post<any>(`${this.base}/api/analytics/dwell`, finalPayload).pipe(
-        timeout(this.REQUEST_TIMEOUT),
-        tap(res => {
-          // Response logged only for debugging - removed to reduce console noise
-          if (res?.siteId) {
-            this.auth.setSiteId(res.siteId);
-          }
-        }),
-        // OPTIMIZATION: Retry transient network errors (up to 1 retry with 500ms delay)
-        retry({
-          count: 1,
-          delay: (error, retryCount) => {
-            if (error.name === 'TimeoutError' || (error.status && error.status >= 500)) {
-              return of(null).pipe(delay(500));
-            }
-            throw error;
-          }
-        }),
-        catchError(err => {
-          console.error('❌ API ERROR: /api/analytics/dwell', {
-            url: `${this.base}/api/analytics/dwell`,
-            error: err,
-            timestamp: new Date().toISOString()
-          });
-          return this.handleApiError(err, 'Dwell', `${this.base}/api/analytics/dwell`);
-        })
-      )
+    // Each request applies its own policy and falls back to null, so every key gets a value
+    // combineLatest (not forkJoin): a stale-while-revalidate response emits twice - cached, then fresh -
+    // and the batch re-emits so callers update in place
+    return combineLatest({
+      footfall: this.requestFootfall(payload),
+      dwell: this.requestDwell(payload)
     }).pipe(
-      tap(results => {
-        // Combined response logged only for debugging - removed to reduce console noise
-      }),
-      // OPTIMIZATION: Cache batch results for same payload
       shareReplay(1),
-      // Add catchError at forkJoin level as additional safety net
+      // Safety net - should be unreachable since every request has a fallback
       catchError(err => {
-        console.error('❌ getSummaryCardsBatch: forkJoin error:', err);
-        // Return default values if forkJoin itself fails
+        console.error('❌ getSummaryCardsBatch: combineLatest error:', err);
         return of({ footfall: null, dwell: null });
       })
     );
@@ -572,74 +225,16 @@ export class ApiService {
    * @param toUtc End time in UTC milliseconds
    * @returns Observable with occupancy and demographics data
    */
-  getChartsBatch(fromUtc?: number, toUtc?: number): Observable<{
-    occupancy: any;
-    demographics: any;
-  }> {
-    const finalPayload = this.createSharedPayload(fromUtc, toUtc);
+  getChartsBatch(fromUtc?: number, toUtc?: number): Observable<ChartsBatch> {
+    const payload = this.analyticsPayload(fromUtc, toUtc);
     
-    // Execute both requests in parallel using forkJoin for maximum speed
-    // Each observable handles its own errors and returns null if it fails
-    // forkJoin will complete successfully with null values for failed requests
-    return forkJoin({
-      occupancy: this.http.post<any>(`${this.base}/api/analytics/occupancy`, finalPayload).pipe(
-        timeout(this.REQUEST_TIMEOUT),
-        tap(res => {
-          // Response logged only for debugging - removed to reduce console noise
-        }),
-        // OPTIMIZATION: Retry transient network errors
-        retry({
-          count: 1,
-          delay: (error, retryCount) => {
-            if (error.name === 'TimeoutError' || (error.status && error.status >= 500)) {
-              return of(null).pipe(delay(500));
-            }
-            throw error;
-          }
-        }),
-        catchError(err => {
-          console.error('❌ API ERROR: /api/analytics/occupancy', {
-            url: `${this.base}/api/analytics/occupancy`,
-            error: err,
-            timestamp: new Date().toISOString()
-          });
-          return this.handleApiError(err, 'Occupancy', `${this.base}/api/analytics/occupancy`);
-        })
-      ),
-      demographics: this.http.post<any>(`${this.base}/api/analytics/demographics`, finalPayload).pipe(
-        timeout(this.REQUEST_TIMEOUT),
-        tap(res => {
-          // Response logged only for debugging - removed to reduce console noise
-        }),
-        // OPTIMIZATION: Retry transient network errors
-        retry({
-          count: 1,
-          delay: (error, retryCount) => {
-            if (error.name === 'TimeoutError' || (error.status && error.status >= 500)) {
-              return of(null).pipe(delay(500));
-            }
-            throw error;
-          }
-        }),
-        catchError(err => {
-          console.error('❌ API ERROR: /api/analytics/demographics', {
-            url: `${this.base}/api/analytics/demographics`,
-            error: err,
-            timestamp: new Date().toISOString()
-          });
-          return this.handleApiError(err, 'Demographics', `${this.base}/api/analytics/demographics`);
-        })
-      )
+    return combineLatest({
+      occupancy: this.requestOccupancy(payload),
+      demographics: this.requestDemographics(payload)
     }).pipe(
-      tap(results => {
-        // Combined response logged only for debugging - removed to reduce console noise
-      }),
-      // OPTIMIZATION: Cache batch results for same payload
       shareReplay(1),
-      // Add catchError at forkJoin level as additional safety net
       catchError(err => {
-        console.error('❌ getChartsBatch: forkJoin error:', err);
-        // Return default values if forkJoin itself fails
+        console.error('❌ getChartsBatch: combineLatest error:', err);
         return of({ occupancy: null, demographics: null });
       })
     );
@@ -651,10 +246,6 @@ export class ApiService {
     this.dwellCache$ = undefined;
     this.occupancyCache$ = undefined;
     this.demographicsCache$ = undefined;
-    this.entryExitCache.clear();
-    
-    // Invalidate cached day payload
-    this.cachedDayPayload = null;
   }
   
 }
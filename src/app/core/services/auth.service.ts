@@ -1,6 +1,6 @@
-import { Injectable } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
-import { tap } from 'rxjs';
+import { Injectable, OnDestroy } from '@angular/core';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Observable, Subject, tap, map, catchError, finalize, shareReplay, throwError } from 'rxjs';
 import { environment } from '../../../environments/environment';
 import { jwtDecode } from 'jwt-decode';
 
@@ -11,17 +11,49 @@ interface JwtPayload {
   name?: string;
   userId?: string;
   siteId?: string;
+  // Access claims, read by PermissionService
+  role?: string;
+  roles?: string[];
+  sites?: string[];
   [key: string]: any;
 }
 
+// Silent refresh runs this long before the token expires
+const REFRESH_LEAD_MS = 2 * 60 * 1000;
+// A proactive refresh that failed for a non-auth reason (network) is retried after this delay
+const REFRESH_RETRY_MS = 30 * 1000;
+
 @Injectable({ providedIn: 'root' })
-export class AuthService {
+export class AuthService implements OnDestroy {
   private tokenKey = 'ks_auth_token';
+  private refreshTokenKey = 'ks_refresh_token';
   private siteIdKey = 'ks_site_id';
   private userKey = 'ks_user_info';
   private tokenExpirationCache: number | null = null;
+  // Single-flight refresh: every caller during a refresh shares this request
+  private refreshInFlight$: Observable<string> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private sessionExpiredSubject = new Subject<void>();
+  private tokenRefreshedSubject = new Subject<string>();
+  private tokenChangedSubject = new Subject<void>();
+
+  // Emits once when the session can no longer be renewed (refresh rejected)
+  sessionExpired$ = this.sessionExpiredSubject.asObservable();
+  // Emits the new token after every successful refresh (e.g. for the socket handshake)
+  tokenRefreshed$ = this.tokenRefreshedSubject.asObservable();
+  // Emits whenever the stored token is set or removed (login, refresh, expiry, logout)
+  tokenChanged$ = this.tokenChangedSubject.asObservable();
+
+  constructor(private http: HttpClient) {
+    // Page reload with a live session - keep it alive
+    if (this.isLoggedIn()) {
+      this.scheduleRefresh();
+    }
+  }
 
-  constructor(private http: HttpClient) {}
+  ngOnDestroy(): void {
+    this.clearRefreshTimer();
+  }
 
   login(email: string, password: string) {
     const url = `${environment.apiUrl}/api/auth/login`;
@@ -31,9 +63,7 @@ export class AuthService {
         tap({
           next: (res) => {
             if (res?.token) {
-              localStorage.setItem(this.tokenKey, res.token);
-              // Clear token expiration cache to force recalculation
-              this.tokenExpirationCache = null;
+              this.storeTokens(res);
               
               // Try to get user info from token first, then fall back to response
               const tokenUser = this.getUserFromToken();
@@ -187,12 +217,87 @@ export class AuthService {
     return !this.isTokenExpired();
   }
 
+  /**
+   * Exchange the current session for a new token
+   * Sends the refresh token when the backend issued one, otherwise the access token itself
+   * Concurrent callers share one request; a 401/403 ends the session (sessionExpired$)
+   */
+  refreshToken(): Observable<string> {
+    if (this.refreshInFlight$) {
+      return this.refreshInFlight$;
+    }
+
+    const url = `${environment.apiUrl}/api/auth/refresh`;
+    const token = this.getToken();
+    const refreshToken = localStorage.getItem(this.refreshTokenKey);
+    if (!token && !refreshToken) {
+      return throwError(() => new HttpErrorResponse({ status: 401, statusText: 'No session to refresh', url }));
+    }
+
+    this.refreshInFlight$ = this.http
+      .post<any>(url, refreshToken ? { refreshToken } : {}, {
+        headers: token ? { Authorization: `Bearer ${token}` } : {}
+      })
+      .pipe(
+        map(res => {
+          if (!res?.token) {
+            throw new HttpErrorResponse({ status: 401, statusText: 'Refresh response missing token', url });
+          }
+          this.storeTokens(res);
+          console.log('✅ AuthService: Token refreshed');
+          this.tokenRefreshedSubject.next(res.token);
+          return res.token as string;
+        }),
+        catchError(err => {
+          console.error('❌ AuthService: Token refresh failed:', {
+            status: err.status,
+            statusText: err.statusText,
+            message: err.message,
+            url: url,
+            timestamp: new Date().toISOString()
+          });
+          if (err.status === 401 || err.status === 403) {
+            this.expireSession();
+          } else {
+            // Network/server trouble - the current token may still be valid for a while
+            this.scheduleRefresh(REFRESH_RETRY_MS);
+          }
+          throw err;
+        }),
+        finalize(() => {
+          this.refreshInFlight$ = null;
+        }),
+        shareReplay(1)
+      );
+    return this.refreshInFlight$;
+  }
+
+  /**
+   * Session can't be renewed: drop the token (site and user info stay, so re-login
+   * lands on the same site) and tell the UI once
+   */
+  expireSession(): void {
+    const hadToken = !!this.getToken();
+    localStorage.removeItem(this.tokenKey);
+    localStorage.removeItem(this.refreshTokenKey);
+    this.tokenExpirationCache = null;
+    this.clearRefreshTimer();
+    if (hadToken) {
+      console.warn('⚠️ AuthService: Session expired');
+      this.tokenChangedSubject.next();
+      this.sessionExpiredSubject.next();
+    }
+  }
+
   logout(): void {
     localStorage.removeItem(this.tokenKey);
+    localStorage.removeItem(this.refreshTokenKey);
     localStorage.removeItem(this.siteIdKey);
     localStorage.removeItem(this.userKey);
     // Clear token expiration cache
     this.tokenExpirationCache = null;
+    this.clearRefreshTimer();
+    this.tokenChangedSubject.next();
   }
 
   getSiteId(): string | null {
@@ -202,4 +307,43 @@ export class AuthService {
   setSiteId(siteId: string): void {
     localStorage.setItem(this.siteIdKey, siteId);
   }
+
+  // Persist tokens from a login/refresh response and plan the next silent refresh
+  private storeTokens(res: { token: string; refreshToken?: string }): void {
+    localStorage.setItem(this.tokenKey, res.token);
+    if (res.refreshToken) {
+      localStorage.setItem(this.refreshTokenKey, res.refreshToken);
+    }
+    // Clear token expiration cache to force recalculation
+    this.tokenExpirationCache = null;
+    this.scheduleRefresh();
+    this.tokenChangedSubject.next();
+  }
+
+  /**
+   * Refresh silently shortly before expiry (or after delayMs when given)
+   * Tokens without an exp claim are never refreshed proactively
+   */
+  private scheduleRefresh(delayMs?: number): void {
+    this.clearRefreshTimer();
+    const expiration = this.getTokenExpiration();
+    if (!expiration && delayMs === undefined) {
+      return;
+    }
+    // setTimeout overflows past ~24.8 days - long-lived tokens are simply re-checked then
+    const delay = Math.min(delayMs ?? Math.max(0, this.getTimeUntilExpiration() - REFRESH_LEAD_MS), 2147483647);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      if (this.getToken()) {
+        this.refreshToken().subscribe({ error: () => { /* logged and handled in refreshToken */ } });
+      }
+    }, delay);
+  }
+
+  private clearRefreshTimer(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
 }
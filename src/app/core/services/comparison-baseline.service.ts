@@ -0,0 +1,145 @@
+import { Injectable } from '@angular/core';
+import { TimezoneService, CalendarDate, addDays } from './timezone.service';
+import { OperatingHoursService } from './operating-hours.service';
+import { DateRange } from './date-range.service';
+
+/**
+ * What the dashboard compares the selected period against
+ * 'previous' is the original behaviour: yesterday, or the preceding period for ranges
+ */
+export type ComparisonBaseline = 'previous' | 'sameWeekdayLastWeek' | 'sameDayLastYear' | 'trailing4WeekAverage' | 'custom';
+
+export const COMPARISON_BASELINES: { value: ComparisonBaseline; label: string }[] = [
+  { value: 'sameWeekdayLastWeek', label: 'Same weekday last week' },
+  { value: 'sameDayLastYear', label: 'Same day last year' },
+  { value: 'trailing4WeekAverage', label: '4-week average' },
+  { value: 'previous', label: 'Previous day / period' },
+  { value: 'custom', label: 'Custom date…' }
+];
+
+/**
+ * One baseline period to fetch
+ * fromUtc/toUtc cover the same elapsed time as the selected period (clipped like "today" is)
+ * fullToUtc is the closing of its last day, used for the chart overlay
+ * shiftMs moves baseline timestamps onto the selected period's timeline
+ */
+export interface BaselineSample {
+  start: CalendarDate;
+  end: CalendarDate;
+  fromUtc: number;
+  toUtc: number;
+  fullToUtc: number;
+  shiftMs: number;
+}
+
+const TRAILING_WEEKS = 4;
+
+@Injectable({ providedIn: 'root' })
+export class ComparisonBaselineService {
+  private storageKey = 'ks_comparison_baseline';
+
+  constructor(
+    private timezone: TimezoneService,
+    private operatingHours: OperatingHoursService
+  ) {}
+
+  /**
+   * Baseline remembered from the last session (same weekday last week by default)
+   */
+  getSavedBaseline(): ComparisonBaseline {
+    const saved = localStorage.getItem(this.storageKey);
+    const known = COMPARISON_BASELINES.some(option => option.value === saved && saved !== 'custom');
+    return known ? saved as ComparisonBaseline : 'sameWeekdayLastWeek';
+  }
+
+  saveBaseline(baseline: ComparisonBaseline): void {
+    // A custom date only makes sense for the period it was picked for - don't persist it
+    if (baseline !== 'custom') {
+      localStorage.setItem(this.storageKey, baseline);
+    }
+  }
+
+  /**
+   * Periods making up the baseline for a selected range
+   * Several samples (trailing average) are averaged by the caller
+   */
+  resolveSamples(
+    siteId: string | null,
+    range: DateRange,
+    baseline: ComparisonBaseline,
+    customStart?: CalendarDate | null,
+    now: number = Date.now()
+  ): BaselineSample[] {
+    // Weekday-aligned shift that never overlaps the selected period
+    const weekShift = Math.ceil(range.dayCount / 7) * 7;
+    switch (baseline) {
+      case 'sameWeekdayLastWeek':
+        return [this.sample(siteId, range, addDays(range.start, -weekShift), now)];
+      case 'sameDayLastYear':
+        return [this.sample(siteId, range, sameDayLastYear(range.start), now)];
+      case 'trailing4WeekAverage':
+        return Array.from({ length: TRAILING_WEEKS }, (_, i) =>
+          this.sample(siteId, range, addDays(range.start, -weekShift * (i + 1)), now)
+        );
+      case 'custom':
+        return customStart ? [this.sample(siteId, range, customStart, now)] : [];
+      default:
+        return [this.sample(siteId, range, addDays(range.start, -range.dayCount), now)];
+    }
+  }
+
+  /**
+   * Wording used on the cards, e.g. "12% More than same weekday last week"
+   */
+  describe(baseline: ComparisonBaseline, range: DateRange, customStart?: CalendarDate | null): string {
+    switch (baseline) {
+      case 'sameWeekdayLastWeek':
+        return range.dayCount === 1 ? 'same weekday last week' : 'same days last week';
+      case 'sameDayLastYear':
+        return range.dayCount === 1 ? 'same day last year' : 'same period last year';
+      case 'trailing4WeekAverage':
+        return '4-week average';
+      case 'custom': {
+        if (!customStart) {
+          return 'custom date';
+        }
+        const label = new Date(Date.UTC(customStart.year, customStart.month, customStart.day))
+          .toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+        return range.dayCount === 1 ? label : `period from ${label}`;
+      }
+      default:
+        return range.dayCount === 1 ? 'yesterday' : 'previous period';
+    }
+  }
+
+  private sample(siteId: string | null, range: DateRange, start: CalendarDate, now: number): BaselineSample {
+    const end = addDays(start, range.dayCount - 1);
+    const currentFirstDay = this.operatingHours.getWindow(siteId, range.start);
+    const currentLastDay = this.operatingHours.getWindow(siteId, range.end);
+    const firstDay = this.operatingHours.getWindow(siteId, start);
+    const lastDay = this.operatingHours.getWindow(siteId, end);
+
+    // A period that includes today only has data up to "now" - compare up to the same time of day
+    let toUtc = lastDay.toUtc;
+    if (this.timezone.isToday(siteId, range.end)) {
+      const elapsed = Math.max(0, Math.min(now, currentLastDay.toUtc) - currentLastDay.fromUtc);
+      toUtc = Math.min(lastDay.fromUtc + elapsed, lastDay.toUtc);
+    }
+
+    return {
+      start,
+      end,
+      fromUtc: firstDay.fromUtc,
+      toUtc,
+      fullToUtc: lastDay.toUtc,
+      shiftMs: currentFirstDay.fromUtc - firstDay.fromUtc
+    };
+  }
+}
+
+// Same calendar date one year earlier (Feb 29 falls back to Feb 28)
+function sameDayLastYear(date: CalendarDate): CalendarDate {
+  const lastYear = { year: date.year - 1, month: date.month, day: date.day };
+  const check = new Date(Date.UTC(lastYear.year, lastYear.month, lastYear.day));
+  return check.getUTCMonth() === lastYear.month ? lastYear : { ...lastYear, day: lastYear.day - 1 };
+}
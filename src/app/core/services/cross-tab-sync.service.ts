@@ -0,0 +1,200 @@
+import { Injectable, NgZone, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Observable, ReplaySubject, Subject, share } from 'rxjs';
+import { CROSS_TAB_CHANNEL, SOCKET_LEADER_LOCK } from '../config/cross-tab.config';
+import { ConnectionState } from '../models/socket.models';
+
+/**
+ * Messages exchanged between tabs of the app
+ * logout       - a tab signed out; every tab ends its session
+ * idle-logout  - a tab timed out while a wall display is open; every tab but the
+ *                wall display ends its session, the shared sign-in stays
+ * login        - a tab signed in; tabs sitting on /login can continue
+ * site-change  - a tab switched site; every tab follows
+ * socket-event - event received by the tab owning the shared socket
+ * socket-state - connection state of the shared socket
+ * alerts-changed - alert history was added to / marked read / acknowledged / cleared (see NotificationService)
+ * alert-rules-changed - alert rules were edited (see AlertRuleService)
+ */
+export type CrossTabMessage =
+  | { type: 'logout' }
+  | { type: 'idle-logout' }
+  | { type: 'login' }
+  | { type: 'site-change'; siteId: string }
+  | { type: 'socket-event'; event: string; data: unknown }
+  | { type: 'socket-state'; state: ConnectionState }
+  | { type: 'alerts-changed' }
+  | { type: 'alert-rules-changed' };
+
+type Envelope = CrossTabMessage & { tabId: string; sentAt: number };
+
+/**
+ * Tab-to-tab messaging over BroadcastChannel (storage events where unsupported),
+ * plus leader election (Web Locks) for the shared socket and other once-per-browser work
+ * Messages are never delivered back to the tab that sent them
+ */
+@Injectable({ providedIn: 'root' })
+export class CrossTabSyncService implements OnDestroy {
+  readonly tabId = Math.random().toString(36).slice(2, 10);
+
+  private channel: BroadcastChannel | null = null;
+  private messagesSubject = new Subject<CrossTabMessage>();
+  private socketLeaderSubject = new BehaviorSubject<boolean>(false);
+  private leadershipAbort: AbortController | null = null;
+  private locks = new Map<string, Observable<boolean>>();
+  private releaseLeadership: (() => void) | null = null;
+  private storageListener = (event: StorageEvent) => {
+    if (event.key === CROSS_TAB_CHANNEL && event.newValue) {
+      try {
+        this.receive(JSON.parse(event.newValue));
+      } catch {
+        // Not one of ours
+      }
+    }
+  };
+
+  // Messages from other tabs
+  messages$ = this.messagesSubject.asObservable();
+  // Whether this tab owns the shared socket connection
+  socketLeader$ = this.socketLeaderSubject.asObservable();
+
+  constructor(private zone: NgZone) {
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CROSS_TAB_CHANNEL);
+      this.channel.onmessage = (event: MessageEvent<Envelope>) => this.receive(event.data);
+    } else {
+      window.addEventListener('storage', this.storageListener);
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.resignSocketLeadership();
+    this.channel?.close();
+    window.removeEventListener('storage', this.storageListener);
+  }
+
+  publish(message: CrossTabMessage): void {
+    const envelope: Envelope = { ...message, tabId: this.tabId, sentAt: Date.now() };
+    try {
+      if (this.channel) {
+        this.channel.postMessage(envelope);
+      } else {
+        // Writing then removing the key fires a storage event in every other tab
+        localStorage.setItem(CROSS_TAB_CHANNEL, JSON.stringify(envelope));
+        localStorage.removeItem(CROSS_TAB_CHANNEL);
+      }
+    } catch (error) {
+      // Unserializable payload or storage full - other tabs just miss this one
+      console.warn('⚠️ CrossTabSyncService: Failed to publish message:', {
+        type: message.type,
+        error,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  get isSocketLeader(): boolean {
+    return this.socketLeaderSubject.value;
+  }
+
+  /**
+   * Queue for the shared socket; socketLeader$ turns true once this tab holds the lock
+   * Without Web Locks every tab leads itself (one socket per tab)
+   */
+  requestSocketLeadership(): void {
+    if (this.leadershipAbort || this.isSocketLeader) {
+      return;
+    }
+    if (!navigator.locks) {
+      this.socketLeaderSubject.next(true);
+      return;
+    }
+    const abort = new AbortController();
+    this.leadershipAbort = abort;
+    navigator.locks.request(SOCKET_LEADER_LOCK, { signal: abort.signal }, () => {
+      // Held until resignSocketLeadership() or the tab closes
+      return new Promise<void>(resolve => {
+        this.releaseLeadership = resolve;
+        this.zone.run(() => this.socketLeaderSubject.next(true));
+      });
+    }).catch(() => {
+      // Aborted while still waiting
+    });
+  }
+
+  // Give the shared socket to the next waiting tab (or leave the queue)
+  resignSocketLeadership(): void {
+    if (this.releaseLeadership) {
+      this.releaseLeadership();
+      this.releaseLeadership = null;
+    } else {
+      this.leadershipAbort?.abort();
+    }
+    this.leadershipAbort = null;
+    if (this.isSocketLeader) {
+      this.socketLeaderSubject.next(false);
+    }
+  }
+
+  /**
+   * Hold a named Web Lock while subscribed: emits false, then true once this tab holds it
+   * One tab at a time - the next waiting tab takes over when the holder unsubscribes or closes
+   * Subscribers in the same tab share one request; without Web Locks every tab holds it
+   */
+  lock(name: string): Observable<boolean> {
+    let lock = this.locks.get(name);
+    if (!lock) {
+      lock = this.requestLock(name).pipe(share({ connector: () => new ReplaySubject<boolean>(1), resetOnRefCountZero: true }));
+      this.locks.set(name, lock);
+    }
+    return lock;
+  }
+
+  /**
+   * Whether any tab (this one included) holds or is waiting for the named Web Lock
+   * Without Web Locks other tabs cannot be seen - resolves false
+   */
+  isLockTaken(name: string): Promise<boolean> {
+    if (!navigator.locks) {
+      return Promise.resolve(false);
+    }
+    return navigator.locks.query()
+      .then(state => [...(state.held || []), ...(state.pending || [])].some(lock => lock.name === name))
+      .catch(() => false);
+  }
+
+  private requestLock(name: string): Observable<boolean> {
+    return new Observable<boolean>(subscriber => {
+      if (!navigator.locks) {
+        subscriber.next(true);
+        return undefined;
+      }
+      subscriber.next(false);
+      const abort = new AbortController();
+      let release: (() => void) | undefined;
+      navigator.locks.request(name, { signal: abort.signal }, () => {
+        return new Promise<void>(resolve => {
+          release = resolve;
+          this.zone.run(() => subscriber.next(true));
+        });
+      }).catch(() => {
+        // Aborted while still waiting
+      });
+      return () => {
+        if (release) {
+          release();
+        } else {
+          abort.abort();
+        }
+      };
+    });
+  }
+
+  private receive(envelope: Envelope | null): void {
+    if (!envelope || envelope.tabId === this.tabId || typeof envelope.type !== 'string') {
+      return;
+    }
+    const { tabId, sentAt, ...message } = envelope;
+    // BroadcastChannel callbacks may run outside Angular's zone
+    this.zone.run(() => this.messagesSubject.next(message as CrossTabMessage));
+  }
+}
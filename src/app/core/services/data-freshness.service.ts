@@ -0,0 +1,72 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+
+/**
+ * Freshness of cached HTTP data currently on screen
+ * staleSince - storage time of the oldest stale response served while revalidating (null when all fresh)
+ * revalidating - number of background refreshes in flight
+ */
+export interface FreshnessState {
+  staleSince: number | null;
+  revalidating: number;
+}
+
+/**
+ * Fed by CacheInterceptor's stale-while-revalidate mode, read by views that show "last updated"
+ */
+@Injectable({ providedIn: 'root' })
+export class DataFreshnessService {
+  // Stale responses served per request lineage, until a fresh response for that lineage arrives
+  private stale = new Map<string, number>();
+  private inFlight = new Set<string>();
+  private stateSubject = new BehaviorSubject<FreshnessState>({ staleSince: null, revalidating: 0 });
+  state$ = this.stateSubject.asObservable();
+
+  get state(): FreshnessState {
+    return this.stateSubject.value;
+  }
+
+  /**
+   * A cached response stored at storedAt was served and a background refresh started
+   */
+  servedStale(lineage: string, storedAt: number): void {
+    this.stale.set(lineage, storedAt);
+    this.inFlight.add(lineage);
+    this.emit();
+  }
+
+  /**
+   * Fresh response arrived for the lineage (background refresh or a plain network request)
+   */
+  refreshed(lineage: string): void {
+    const changed = this.stale.delete(lineage) || this.inFlight.delete(lineage);
+    this.inFlight.delete(lineage);
+    if (changed) {
+      this.emit();
+    }
+  }
+
+  /**
+   * Background refresh failed - the stale response stays on screen
+   */
+  refreshFailed(lineage: string): void {
+    if (this.inFlight.delete(lineage)) {
+      this.emit();
+    }
+  }
+
+  // Site change / logout - stale markers belong to data that is no longer shown
+  clear(): void {
+    this.stale.clear();
+    this.inFlight.clear();
+    this.emit();
+  }
+
+  private emit(): void {
+    let staleSince: number | null = null;
+    this.stale.forEach(storedAt => {
+      staleSince = staleSince === null ? storedAt : Math.min(staleSince, storedAt);
+    });
+    this.stateSubject.next({ staleSince, revalidating: this.inFlight.size });
+  }
+}
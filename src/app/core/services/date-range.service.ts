@@ -0,0 +1,174 @@
+import { Injectable } from '@angular/core';
+import { TimezoneService, CalendarDate, addDays, zonedParts } from './timezone.service';
+import { OperatingHoursService } from './operating-hours.service';
+
+/**
+ * Period shown on the dashboard
+ * 'day' is the original single-date view; the others aggregate several days
+ */
+export type DateRangePreset = 'day' | 'last7Days' | 'thisWeek' | 'lastMonth' | 'custom';
+
+export type BucketGranularity = 'hour' | 'day';
+
+export const DATE_RANGE_PRESETS: { value: DateRangePreset; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'last7Days', label: 'Last 7 days' },
+  { value: 'thisWeek', label: 'This week' },
+  { value: 'lastMonth', label: 'Last month' },
+  { value: 'custom', label: 'Custom' }
+];
+
+// Ranges up to this many days are charted per hour, longer ones per day
+const HOURLY_MAX_DAYS = 2;
+
+/**
+ * Resolved period: inclusive calendar days plus the UTC window sent to the analytics API
+ * fromUtc is the opening of the first day, toUtc the closing of the last day (clipped to now)
+ */
+export interface DateRange {
+  preset: DateRangePreset;
+  start: CalendarDate;
+  end: CalendarDate;
+  dayCount: number;
+  fromUtc: number;
+  toUtc: number;
+  granularity: BucketGranularity;
+}
+
+/**
+ * Backend buckets grouped under one chart label
+ */
+export interface BucketGroup<T> {
+  label: string;
+  items: T[];
+}
+
+@Injectable({ providedIn: 'root' })
+export class DateRangeService {
+  constructor(
+    private timezone: TimezoneService,
+    private operatingHours: OperatingHoursService
+  ) {}
+
+  /**
+   * Calendar days covered by a preset, in the site's timezone
+   * selectedDay is used by 'day', custom by 'custom' (falls back to selectedDay when incomplete)
+   */
+  resolveDays(
+    siteId: string | null,
+    preset: DateRangePreset,
+    selectedDay: CalendarDate,
+    custom?: { start: CalendarDate; end: CalendarDate } | null
+  ): { start: CalendarDate; end: CalendarDate } {
+    const today = this.timezone.today(siteId);
+    switch (preset) {
+      case 'last7Days':
+        return { start: addDays(today, -6), end: today };
+      case 'thisWeek': {
+        // Weeks start on Monday (getUTCDay: 0 = Sunday)
+        const weekday = new Date(Date.UTC(today.year, today.month, today.day)).getUTCDay();
+        return { start: addDays(today, -((weekday + 6) % 7)), end: today };
+      }
+      case 'lastMonth': {
+        const firstOfThisMonth = { year: today.year, month: today.month, day: 1 };
+        const end = addDays(firstOfThisMonth, -1);
+        return { start: { year: end.year, month: end.month, day: 1 }, end };
+      }
+      case 'custom':
+        if (custom) {
+          return compareDays(custom.start, custom.end) <= 0 ? custom : { start: custom.end, end: custom.start };
+        }
+        return { start: selectedDay, end: selectedDay };
+      default:
+        return { start: selectedDay, end: selectedDay };
+    }
+  }
+
+  /**
+   * Full range for a preset: operating window of the first and last day, granularity picked by length
+   */
+  resolve(
+    siteId: string | null,
+    preset: DateRangePreset,
+    selectedDay: CalendarDate,
+    custom?: { start: CalendarDate; end: CalendarDate } | null,
+    now: number = Date.now()
+  ): DateRange {
+    const { start, end } = this.resolveDays(siteId, preset, selectedDay, custom);
+    const dayCount = dayIndex(end) - dayIndex(start) + 1;
+    const fromUtc = this.operatingHours.getWindow(siteId, start).fromUtc;
+    const closing = this.operatingHours.getWindow(siteId, end).toUtc;
+    const toUtc = this.timezone.isToday(siteId, end) ? Math.min(now, closing) : closing;
+    return {
+      preset,
+      start,
+      end,
+      dayCount,
+      fromUtc,
+      toUtc,
+      granularity: dayCount <= HOURLY_MAX_DAYS ? 'hour' : 'day'
+    };
+  }
+
+  /**
+   * Human readable range, e.g. "Last 7 days" or "Dec 1 – Dec 7, 2025"
+   */
+  describe(range: DateRange): string {
+    switch (range.preset) {
+      case 'last7Days':
+        return 'Last 7 days';
+      case 'thisWeek':
+        return 'This week';
+      case 'lastMonth':
+        return formatDay(range.start, { month: 'long', year: 'numeric' });
+      default:
+        if (range.dayCount === 1) {
+          return formatDay(range.start, { month: 'short', day: 'numeric', year: 'numeric' });
+        }
+        return `${formatDay(range.start, { month: 'short', day: 'numeric' })} – ${formatDay(range.end, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+    }
+  }
+
+  /**
+   * Group backend buckets per hour or per day in the active display zone
+   * Order of first appearance is kept (backend buckets are chronological)
+   */
+  groupBuckets<T extends { utc: number }>(siteId: string | null, buckets: T[], range: DateRange): BucketGroup<T>[] {
+    const zone = this.timezone.zoneFor(siteId);
+    const groups = new Map<string, BucketGroup<T>>();
+    for (const bucket of buckets) {
+      const utcMs = bucket.utc < 10000000000 ? bucket.utc * 1000 : bucket.utc;
+      const p = zonedParts(utcMs, zone);
+      const hour = `${p.hour.toString().padStart(2, '0')}:00`;
+      let label: string;
+      if (range.granularity === 'day') {
+        label = formatDay(p, { month: 'short', day: 'numeric' });
+      } else if (range.dayCount > 1) {
+        // Hourly over several days - prefix the day so labels stay unique
+        label = `${formatDay(p, { month: 'short', day: 'numeric' })} ${hour}`;
+      } else {
+        label = hour;
+      }
+      let group = groups.get(label);
+      if (!group) {
+        group = { label, items: [] };
+        groups.set(label, group);
+      }
+      group.items.push(bucket);
+    }
+    return Array.from(groups.values());
+  }
+}
+
+function dayIndex(date: CalendarDate): number {
+  return Math.round(Date.UTC(date.year, date.month, date.day) / (24 * 60 * 60 * 1000));
+}
+
+function compareDays(a: CalendarDate, b: CalendarDate): number {
+  return dayIndex(a) - dayIndex(b);
+}
+
+// Calendar day formatted as-is (UTC components carry the day, so no zone shift)
+function formatDay(date: CalendarDate, options: Intl.DateTimeFormatOptions): string {
+  return new Date(Date.UTC(date.year, date.month, date.day)).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+}
@@ -0,0 +1,147 @@
+import { Injectable, NgZone, OnDestroy } from '@angular/core';
+import { ActivatedRouteSnapshot, Router } from '@angular/router';
+import { BehaviorSubject, Subject, Subscription } from 'rxjs';
+import { KIOSK_LOCK } from '../config/cross-tab.config';
+import {
+  IDLE_ACTIVITY_EVENTS,
+  IDLE_ACTIVITY_WRITE_MS,
+  IDLE_WARNING_MS,
+  idleTimeoutMs
+} from '../config/idle.config';
+import { CrossTabSyncService } from './cross-tab-sync.service';
+
+export interface IdleState {
+  warning: boolean;       // Countdown dialog should be shown
+  remainingMs: number;    // Time left before sign-out while warning
+}
+
+const LAST_ACTIVITY_KEY = 'ks_last_activity';
+const TICK_MS = 1000;
+
+/**
+ * Inactivity detection for shared terminals
+ * Activity is tracked outside Angular's zone (mousemove would otherwise trigger
+ * change detection constantly) and shared between tabs through localStorage,
+ * so working in one tab keeps the others signed in too
+ */
+@Injectable({ providedIn: 'root' })
+export class IdleService implements OnDestroy {
+  private stateSubject = new BehaviorSubject<IdleState>({ warning: false, remainingMs: 0 });
+  private timedOutSubject = new Subject<void>();
+  private lastActivity = 0;
+  private lastWrite = 0;
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private kioskLock?: Subscription;
+  private activityListener = () => this.recordActivity();
+
+  // Warning countdown state (emits inside Angular's zone)
+  state$ = this.stateSubject.asObservable();
+  // Emits once when the idle period ran out - the subscriber signs the session out
+  timedOut$ = this.timedOutSubject.asObservable();
+
+  constructor(private zone: NgZone, private router: Router, private tabSync: CrossTabSyncService) {}
+
+  ngOnDestroy(): void {
+    this.stop();
+  }
+
+  /**
+   * Begin watching (idempotent) - the idle period starts now
+   */
+  start(): void {
+    if (this.tickTimer) {
+      return;
+    }
+    // A timestamp left over from a previous session must not count against this one
+    this.recordActivity(true);
+    this.zone.runOutsideAngular(() => {
+      IDLE_ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, this.activityListener, { passive: true, capture: true }));
+      this.tickTimer = setInterval(() => this.tick(), TICK_MS);
+    });
+  }
+
+  stop(): void {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+    IDLE_ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, this.activityListener, { capture: true }));
+    this.setKiosk(false);
+    this.setState({ warning: false, remainingMs: 0 });
+  }
+
+  // "Stay signed in" from the warning dialog
+  stayActive(): void {
+    this.recordActivity(true);
+    this.setState({ warning: false, remainingMs: 0 });
+  }
+
+  private recordActivity(force = false): void {
+    const now = Date.now();
+    this.lastActivity = now;
+    if (force || now - this.lastWrite >= IDLE_ACTIVITY_WRITE_MS) {
+      this.lastWrite = now;
+      localStorage.setItem(LAST_ACTIVITY_KEY, String(now));
+    }
+  }
+
+  private tick(): void {
+    const timeout = idleTimeoutMs();
+    const kiosk = this.isKioskRoute();
+    this.setKiosk(kiosk);
+    // Wall displays and disabled timeouts never expire - locally only: writing the shared
+    // timestamp would keep every other tab of this browser signed in too
+    if (timeout === 0 || kiosk) {
+      this.lastActivity = Date.now();
+      this.setState({ warning: false, remainingMs: 0 });
+      return;
+    }
+
+    const shared = Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || 0;
+    const idleFor = Date.now() - Math.max(this.lastActivity, shared);
+    const remainingMs = timeout - idleFor;
+
+    if (remainingMs <= 0) {
+      this.stop();
+      console.warn('⚠️ IdleService: Signing out after inactivity:', {
+        timeoutMs: timeout,
+        timestamp: new Date().toISOString()
+      });
+      this.zone.run(() => this.timedOutSubject.next());
+    } else if (remainingMs <= Math.min(IDLE_WARNING_MS, timeout)) {
+      this.setState({ warning: true, remainingMs });
+    } else {
+      this.setState({ warning: false, remainingMs: 0 });
+    }
+  }
+
+  // Only emit (and enter the zone) when something visible changes: whole seconds of the countdown
+  private setState(state: IdleState): void {
+    const current = this.stateSubject.value;
+    if (current.warning === state.warning && Math.ceil(current.remainingMs / 1000) === Math.ceil(state.remainingMs / 1000)) {
+      return;
+    }
+    this.zone.run(() => this.stateSubject.next(state));
+  }
+
+  // Kiosk tabs stay visible to the other tabs' idle sign-out through KIOSK_LOCK
+  private setKiosk(kiosk: boolean): void {
+    if (kiosk && !this.kioskLock) {
+      this.kioskLock = this.tabSync.lock(KIOSK_LOCK).subscribe();
+    } else if (!kiosk && this.kioskLock) {
+      this.kioskLock.unsubscribe();
+      this.kioskLock = undefined;
+    }
+  }
+
+  private isKioskRoute(): boolean {
+    let route: ActivatedRouteSnapshot | null = this.router.routerState.snapshot.root;
+    while (route) {
+      if (route.data['kiosk']) {
+        return true;
+      }
+      route = route.firstChild;
+    }
+    return false;
+  }
+}
@@ -0,0 +1,131 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import {
+  BehaviorSubject,
+  EMPTY,
+  Observable,
+  Subscription,
+  catchError,
+  distinctUntilChanged,
+  exhaustMap,
+  forkJoin,
+  map,
+  of,
+  switchMap,
+  takeLast,
+  tap,
+  timer
+} from 'rxjs';
+import { ApiService } from './api.service';
+import { AuthService } from './auth.service';
+import { DateRangeService } from './date-range.service';
+import { SocketService } from './socket.service';
+import { TimezoneService } from './timezone.service';
+import { POLL_FALLBACK_AFTER_MS, POLL_INTERVAL_MS } from '../config/socket.config';
+
+/**
+ * REST fallback for live data when the socket is blocked (corporate proxies) or down
+ * After POLL_FALLBACK_AFTER_MS without a connection, today's occupancy and footfall are
+ * polled and fed into SocketService's live_occupancy / live_footfall streams, so views
+ * don't know the difference. Polling stops the moment the socket reconnects.
+ */
+@Injectable({ providedIn: 'root' })
+export class LivePollingService implements OnDestroy {
+  readonly intervalMs = POLL_INTERVAL_MS;
+
+  private pollingSubject = new BehaviorSubject<boolean>(false);
+  private watchSubscription?: Subscription;
+
+  // Whether live data currently comes from polling
+  polling$ = this.pollingSubject.asObservable();
+
+  constructor(
+    private socket: SocketService,
+    private api: ApiService,
+    private auth: AuthService,
+    private dateRange: DateRangeService,
+    private timezone: TimezoneService
+  ) {}
+
+  ngOnDestroy(): void {
+    this.stop();
+  }
+
+  /**
+   * Watch the socket and fall back to polling when needed (idempotent)
+   */
+  start(): void {
+    if (this.watchSubscription) {
+      return;
+    }
+    this.watchSubscription = this.socket.connectionState$.pipe(
+      map(state => state.status === 'connected'),
+      distinctUntilChanged(),
+      // Short outages are bridged by Socket.IO's own reconnection - only poll when it persists
+      switchMap(connected => connected ? of(false) : timer(POLL_FALLBACK_AFTER_MS).pipe(map(() => true))),
+      distinctUntilChanged(),
+      tap(polling => {
+        if (polling) {
+          console.warn('⚠️ LivePollingService: Socket unavailable - polling live data:', {
+            intervalMs: POLL_INTERVAL_MS,
+            timestamp: new Date().toISOString()
+          });
+        } else if (this.pollingSubject.value) {
+          console.log('✅ LivePollingService: Socket back - polling stopped');
+        }
+        this.pollingSubject.next(polling);
+      }),
+      // exhaustMap: a slow poll is never overlapped by the next one
+      switchMap(polling => polling ? timer(0, POLL_INTERVAL_MS).pipe(exhaustMap(() => this.poll())) : EMPTY)
+    ).subscribe();
+  }
+
+  stop(): void {
+    this.watchSubscription?.unsubscribe();
+    this.watchSubscription = undefined;
+    this.pollingSubject.next(false);
+  }
+
+  // One round: today's occupancy (latest bucket) and footfall for the selected site
+  private poll(): Observable<unknown> {
+    const siteId = this.auth.getSiteId();
+    if (!siteId) {
+      return of(null);
+    }
+    const today = this.dateRange.resolve(siteId, 'day', this.timezone.today(siteId));
+    // takeLast: skip the cached emission - polling exists to get the new values
+    return forkJoin({
+      occupancy: this.api.getOccupancy(today.fromUtc, today.toUtc).pipe(takeLast(1)),
+      footfall: this.api.getFootfall(today.fromUtc, today.toUtc).pipe(takeLast(1))
+    }).pipe(
+      tap(({ occupancy, footfall }) => {
+        // Site switched while the requests ran - the next round polls the new one
+        if (this.auth.getSiteId() !== siteId) {
+          return;
+        }
+        const latest = occupancy?.buckets[occupancy.buckets.length - 1];
+        if (latest) {
+          this.socket.injectEvent('live_occupancy', { siteId, siteOccupancy: latest.avg, ts: latest.utc, source: 'poll' });
+        }
+        if (footfall) {
+          this.socket.injectEvent('live_footfall', {
+            siteId,
+            footfall: footfall.footfall,
+            fromUtc: today.fromUtc,
+            toUtc: today.toUtc,
+            ts: Date.now(),
+            source: 'poll'
+          });
+        }
+      }),
+      catchError(err => {
+        // Request policies already fall back to null - this only guards against the unexpected
+        console.error('❌ LivePollingService: Poll failed:', {
+          message: err?.message,
+          error: err,
+          timestamp: new Date().toISOString()
+        });
+        return of(null);
+      })
+    );
+  }
+}
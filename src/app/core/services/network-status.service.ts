@@ -0,0 +1,85 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Subject } from 'rxjs';
+
+/**
+ * online - browser reports a connection AND the backend answered the last request
+ * offlineSince - when connectivity was lost (null while online)
+ */
+export interface NetworkStatus {
+  online: boolean;
+  offlineSince: number | null;
+}
+
+/**
+ * Connectivity as seen by the app: browser online/offline events plus
+ * backend reachability reported by CacheInterceptor (status 0 = no response)
+ */
+@Injectable({ providedIn: 'root' })
+export class NetworkStatusService implements OnDestroy {
+  private browserOnline = typeof navigator === 'undefined' ? true : navigator.onLine;
+  private backendReachable = true;
+  private statusSubject = new BehaviorSubject<NetworkStatus>({
+    online: this.browserOnline,
+    offlineSince: this.browserOnline ? null : Date.now()
+  });
+  private reconnectedSubject = new Subject<void>();
+
+  status$ = this.statusSubject.asObservable();
+  // Emits when connectivity comes back - views reload to replace saved data
+  reconnected$ = this.reconnectedSubject.asObservable();
+
+  private onlineHandler = () => {
+    this.browserOnline = true;
+    // Give the backend the benefit of the doubt until a request says otherwise
+    this.backendReachable = true;
+    this.update();
+  };
+  private offlineHandler = () => {
+    this.browserOnline = false;
+    this.update();
+  };
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.onlineHandler);
+      window.addEventListener('offline', this.offlineHandler);
+    }
+  }
+
+  get isOnline(): boolean {
+    return this.statusSubject.value.online;
+  }
+
+  /**
+   * Called per HTTP result: any response means reachable, status 0 means no connection
+   */
+  reportBackendResult(reachable: boolean): void {
+    if (reachable === this.backendReachable) {
+      return;
+    }
+    this.backendReachable = reachable;
+    this.update();
+  }
+
+  ngOnDestroy(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.onlineHandler);
+      window.removeEventListener('offline', this.offlineHandler);
+    }
+  }
+
+  private update(): void {
+    const previous = this.statusSubject.value;
+    const online = this.browserOnline && this.backendReachable;
+    if (online === previous.online) {
+      return;
+    }
+    this.statusSubject.next({ online, offlineSince: online ? null : Date.now() });
+    if (online) {
+      console.log('✅ NetworkStatus: Connection restored');
+      this.reconnectedSubject.next();
+    } else {
+      console.warn('⚠️ NetworkStatus: Connection lost - showing saved data where available');
+    }
+  }
+}
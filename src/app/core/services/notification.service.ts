@@ -1,7 +1,12 @@
-import { Injectable } from '@angular/core';
-import { Subject } from 'rxjs';
+import { Injectable, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Subject, Subscription } from 'rxjs';
+import { AlertStoreService } from './alert-store.service';
+import { AuthService } from './auth.service';
+import { CrossTabSyncService } from './cross-tab-sync.service';
+import { MAX_ALERTS, alertRetention } from '../config/alerts.config';
 
 export interface Alert {
+  eventId?: string; // Backend event ID (the payload may call it id / _id) - de-duplicates history
   actionType: string;
   zone: string;
   site: string;
@@ -12,44 +17,157 @@ export interface Alert {
   raw: any;
 }
 
+/**
+ * Alert fed in by the socket replayer (devtools) - kept in this tab's memory only
+ */
+export function isReplayedAlert(alert: Alert): boolean {
+  return alert.raw?.source === 'replay';
+}
+
+/**
+ * Alert text without personal data, for roles without entries.view (viewer)
+ */
+export function impersonalMessage(alert: Alert): string {
+  if (alert.actionType === 'entry' || alert.actionType === 'exit') {
+    return `${alert.actionType === 'entry' ? 'ENTRY' : 'EXIT'}: ${alert.zone || 'Unknown Zone'}`;
+  }
+  // Rule alerts about one visitor (dwell) name them in the message
+  return [alert.raw?.personName, alert.raw?.personId]
+    .filter((value): value is string => typeof value === 'string' && value !== '')
+    .reduce((message, value) => message.split(value).join('Visitor'), alert.message || '');
+}
+
+/**
+ * An alert as kept in history (IndexedDB), with its read / acknowledged state
+ */
+export interface AlertRecord extends Alert {
+  id: string; // Backend eventId, or derived from site, time, action, zone and person when there is none
+  receivedAt: number;
+  read: boolean;
+  acknowledgedBy: string | null;
+  acknowledgedAt: number | null;
+}
+
 @Injectable({ providedIn: 'root' })
-export class NotificationService {
-  private alerts: Alert[] = [];
-  private alertsSubject = new Subject<Alert[]>();
+export class NotificationService implements OnDestroy {
+  private alerts: AlertRecord[] = []; // Retained history of all sites, newest first
+  private alertsSubject = new Subject<AlertRecord[]>();
   public alerts$ = this.alertsSubject.asObservable();
-  private readonly MAX_ALERTS = 50;
+  // Unread alerts per siteId (all sites - for the site switcher badges)
+  private unreadBySiteSubject = new BehaviorSubject<Record<string, number>>({});
+  public unreadBySite$ = this.unreadBySiteSubject.asObservable();
+  // Each newly received alert, once (not history loaded from IndexedDB)
+  private addedSubject = new Subject<AlertRecord>();
+  public added$ = this.addedSubject.asObservable();
   private selectedDate: Date = new Date(); // Kept for backward compatibility, but not used for filtering
-  private currentSiteId: string | null = null; // Kept for backward compatibility, but not used for filtering
+  private currentSiteId: string | null = null;
+  private tabSubscription: Subscription;
+
+  constructor(
+    private store: AlertStoreService,
+    private auth: AuthService,
+    private tabSync: CrossTabSyncService
+  ) {
+    this.load();
+    // Another tab added alerts or marked them read / acknowledged - pick up its changes
+    this.tabSubscription = this.tabSync.messages$.subscribe(message => {
+      if (message.type === 'alerts-changed') {
+        this.load();
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.tabSubscription.unsubscribe();
+  }
 
   addAlert(alert: Alert): void {
-    this.alerts.unshift(alert);
-    // Limit alerts to prevent memory issues
-    if (this.alerts.length > this.MAX_ALERTS) {
-      this.alerts = this.alerts.slice(0, this.MAX_ALERTS);
+    // Without an event ID, every tab (each with its own socket) must still derive the same ID
+    const id = alert.eventId || String(alert.raw?.eventId || '') ||
+      [alert.siteId || 'unknown', alert.timestamp, alert.actionType, alert.zone, alert.raw?.personId || alert.raw?.personName || ''].join('|');
+    if (this.alerts.some(a => a.id === id)) {
+      return; // Same event delivered twice (reconnect replay, several listeners)
+    }
+    const record: AlertRecord = {
+      ...alert,
+      id,
+      receivedAt: Date.now(),
+      read: false,
+      acknowledgedBy: null,
+      acknowledgedAt: null
+    };
+    this.alerts.unshift(record);
+    if (!isReplayedAlert(record)) {
+      // Rule alerts are raised in the leader tab only - the others load them from the store
+      this.store.add(record).then(() => this.tabSync.publish({ type: 'alerts-changed' }));
     }
+    this.applyRetention();
     // Emit filtered alerts (only for current site) to trigger change detection
-    this.alertsSubject.next([...this.getAlerts()]);
+    this.emit();
+    this.addedSubject.next(record);
   }
 
-  getAlerts(): Alert[] {
+  /**
+   * Newest alerts of the current site (at most MAX_ALERTS - the bell list)
+   */
+  getAlerts(): AlertRecord[] {
     // Filter alerts by current site ID
     if (!this.currentSiteId) {
       return [];
     }
-    return this.alerts.filter(alert => {
-      // Match alert's siteId with current site ID
-      return alert.siteId === this.currentSiteId;
-    });
+    return this.alerts.filter(alert => alert.siteId === this.currentSiteId).slice(0, MAX_ALERTS);
+  }
+
+  /**
+   * Whole retained history, all sites, newest first (the Alerts page filters it)
+   */
+  getHistory(): AlertRecord[] {
+    return this.alerts;
   }
 
   getUnreadCount(): number {
-    // Count only alerts for current site
-    return this.getAlerts().length;
+    // Count only alerts for current site (whole history, not just the listed ones)
+    return this.currentSiteId ? this.getUnreadCountsBySite()[this.currentSiteId] || 0 : 0;
+  }
+
+  getUnreadCountsBySite(): Record<string, number> {
+    return this.unreadBySiteSubject.value;
+  }
+
+  markRead(id: string): void {
+    this.updateAlerts(alert => alert.id === id && !alert.read, alert => ({ ...alert, read: true }));
+  }
+
+  /**
+   * Mark every alert of a site read (defaults to the current site)
+   */
+  markAllRead(siteId: string | null = this.currentSiteId): void {
+    if (!siteId) {
+      return;
+    }
+    this.updateAlerts(alert => alert.siteId === siteId && !alert.read, alert => ({ ...alert, read: true }));
+  }
+
+  /**
+   * Acknowledge an alert as the signed-in user (also marks it read)
+   */
+  acknowledge(id: string): void {
+    const user = this.auth.getUserInfo();
+    const acknowledgedBy = user?.name || user?.email || this.auth.getUserFromToken()?.email || 'Unknown user';
+    const acknowledgedAt = Date.now();
+    this.updateAlerts(
+      alert => alert.id === id && !alert.acknowledgedAt,
+      alert => ({ ...alert, read: true, acknowledgedBy, acknowledgedAt })
+    );
   }
 
+  /**
+   * Drop the whole history, in this tab, IndexedDB and every other tab
+   */
   clearAlerts(): void {
     this.alerts = [];
-    this.alertsSubject.next([]);
+    this.emit();
+    this.store.clear().then(() => this.tabSync.publish({ type: 'alerts-changed' }));
   }
 
   // Backend handles date and site filtering, so we don't need these for filtering
@@ -75,12 +193,62 @@ export class NotificationService {
   }
 
   // Filter alerts by current site ID
-  getFilteredAlerts(): Alert[] {
+  getFilteredAlerts(): AlertRecord[] {
     return this.getAlerts();
   }
 
   getFilteredUnreadCount(): number {
     return this.getUnreadCount();
   }
-}
 
+  // (Re)read history from IndexedDB; alerts added meanwhile that aren't stored yet are kept
+  private async load(): Promise<void> {
+    const stored = await this.store.getAll();
+    const storedIds = new Set(stored.map(alert => alert.id));
+    const pending = this.alerts.filter(alert => !storedIds.has(alert.id));
+    this.alerts = [...pending, ...stored].sort((a, b) => b.receivedAt - a.receivedAt);
+    this.applyRetention();
+    this.emit();
+  }
+
+  private updateAlerts(match: (alert: AlertRecord) => boolean, change: (alert: AlertRecord) => AlertRecord): void {
+    const changed: AlertRecord[] = [];
+    this.alerts = this.alerts.map(alert => {
+      if (!match(alert)) {
+        return alert;
+      }
+      const updated = change(alert);
+      changed.push(updated);
+      return updated;
+    });
+    if (changed.length === 0) {
+      return;
+    }
+    this.emit();
+    this.store.update(changed.filter(alert => !isReplayedAlert(alert))).then(() => this.tabSync.publish({ type: 'alerts-changed' }));
+  }
+
+  // Drop alerts past the retention age or count
+  private applyRetention(): void {
+    const { maxAgeMs, maxCount } = alertRetention();
+    const cutoff = Date.now() - maxAgeMs;
+    const kept = this.alerts.filter((alert, index) => index < maxCount && alert.receivedAt >= cutoff);
+    if (kept.length === this.alerts.length) {
+      return;
+    }
+    const keptIds = new Set(kept.map(alert => alert.id));
+    this.store.delete(this.alerts.filter(alert => !keptIds.has(alert.id)).map(alert => alert.id));
+    this.alerts = kept;
+  }
+
+  private emit(): void {
+    const unread: Record<string, number> = {};
+    this.alerts.forEach(alert => {
+      if (!alert.read && alert.siteId) {
+        unread[alert.siteId] = (unread[alert.siteId] || 0) + 1;
+      }
+    });
+    this.unreadBySiteSubject.next(unread);
+    this.alertsSubject.next([...this.getAlerts()]);
+  }
+}
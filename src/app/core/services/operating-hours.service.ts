@@ -0,0 +1,82 @@
+import { Injectable } from '@angular/core';
+import { OperatingHours, Site } from '../models/api.models';
+import { DEFAULT_OPERATING_HOURS, OPERATING_HOURS_OVERRIDES } from '../config/operating-hours.config';
+import { TimezoneService, CalendarDate, addDays } from './timezone.service';
+
+/**
+ * Time window of one operating day, in UTC milliseconds
+ */
+export interface OperatingWindow {
+  fromUtc: number;
+  toUtc: number;
+}
+
+@Injectable({ providedIn: 'root' })
+export class OperatingHoursService {
+  // Hours reported by /api/sites, registered by ApiService when the sites list loads
+  private siteHours = new Map<string, OperatingHours>();
+
+  constructor(private timezone: TimezoneService) {}
+
+  registerSites(sites: Site[]): void {
+    sites.forEach(site => {
+      if (site.operatingHours) {
+        this.siteHours.set(site.siteId, site.operatingHours);
+      }
+    });
+  }
+
+  /**
+   * Resolve hours for a site: local override > /api/sites > default
+   */
+  getHours(siteId: string | null): OperatingHours {
+    if (siteId) {
+      return OPERATING_HOURS_OVERRIDES[siteId] || this.siteHours.get(siteId) || DEFAULT_OPERATING_HOURS;
+    }
+    return DEFAULT_OPERATING_HOURS;
+  }
+
+  isOpen24Hours(siteId: string | null): boolean {
+    const { open, close } = this.getHours(siteId);
+    return toMinutes(open) === 0 && toMinutes(close) === 24 * 60;
+  }
+
+  /**
+   * Full operating window (not clipped to "now") for the given calendar day
+   * Opening/closing times are wall-clock times in the site's timezone (see TimezoneService)
+   * A close time at or before the open time means the site closes after midnight
+   */
+  getWindow(siteId: string | null, date: CalendarDate): OperatingWindow {
+    const hours = this.getHours(siteId);
+    const openMinutes = toMinutes(hours.open);
+    let closeMinutes = toMinutes(hours.close);
+    if (closeMinutes <= openMinutes) {
+      closeMinutes += 24 * 60;
+    }
+    return {
+      fromUtc: this.timezone.toUtc(siteId, date, openMinutes),
+      toUtc: this.timezone.toUtc(siteId, date, closeMinutes)
+    };
+  }
+
+  /**
+   * Window of the operating day that contains (or most recently started before) "now"
+   * Handles sites that close after midnight: at 01:00 a 10:00-02:00 site is still in yesterday's window
+   */
+  getCurrentWindow(siteId: string | null, now: number = Date.now()): OperatingWindow {
+    const date = this.timezone.calendarDate(siteId, now);
+    const today = this.getWindow(siteId, date);
+    if (now < today.fromUtc) {
+      const previous = this.getWindow(siteId, addDays(date, -1));
+      if (now < previous.toUtc) {
+        return previous;
+      }
+    }
+    return today;
+  }
+}
+
+function toMinutes(hhmm: string): number {
+  const [hours, minutes] = hhmm.split(':').map(Number);
+  return hours * 60 + minutes;
+}
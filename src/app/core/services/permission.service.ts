@@ -0,0 +1,78 @@
+import { Injectable } from '@angular/core';
+import { Observable } from 'rxjs';
+import { AuthService } from './auth.service';
+import { Site } from '../models/api.models';
+import {
+  ALL_SITES,
+  DEFAULT_ROLE,
+  Permission,
+  Role,
+  ROLE_PERMISSIONS,
+  ROLE_PRECEDENCE,
+  UNKNOWN_ROLE
+} from '../config/permissions.config';
+
+/**
+ * Role and site scope of the signed-in user, read from the JWT claims
+ * Nothing is cached - every check reads the current token, so login, refresh
+ * and logout take effect immediately (changes$ tells views when to re-check)
+ */
+@Injectable({ providedIn: 'root' })
+export class PermissionService {
+  // Emits whenever the token changes (login, refresh, logout, expiry)
+  readonly changes$: Observable<void> = this.auth.tokenChanged$;
+
+  constructor(private auth: AuthService) {}
+
+  /**
+   * Role claim: "role" (string) or "roles" (array - most privileged recognized role wins)
+   * No claim at all gets DEFAULT_ROLE; a claim naming no known role gets UNKNOWN_ROLE
+   */
+  get role(): Role {
+    const claims = this.auth.decodeToken();
+    if (claims?.['roles'] === undefined && claims?.['role'] === undefined) {
+      return DEFAULT_ROLE;
+    }
+    const claimed: unknown[] = Array.isArray(claims?.['roles']) ? claims!['roles'] : [claims?.['role']];
+    const names = claimed
+      .filter((value): value is string => typeof value === 'string')
+      .map(value => value.toLowerCase());
+    return ROLE_PRECEDENCE.find(role => names.includes(role)) || UNKNOWN_ROLE;
+  }
+
+  /**
+   * Sites the user may see, or null for all sites
+   * Claim: "sites" / "siteIds" (array, "*" = all); missing means all
+   */
+  get allowedSiteIds(): string[] | null {
+    const claims = this.auth.decodeToken();
+    const scope = claims?.['sites'] ?? claims?.['siteIds'];
+    if (!Array.isArray(scope)) {
+      return null;
+    }
+    const siteIds = scope.filter((value): value is string => typeof value === 'string');
+    return siteIds.includes(ALL_SITES) ? null : siteIds;
+  }
+
+  has(permission: Permission): boolean {
+    return ROLE_PERMISSIONS[this.role].includes(permission);
+  }
+
+  hasAll(permissions: Permission[]): boolean {
+    const granted = ROLE_PERMISSIONS[this.role];
+    return permissions.every(permission => granted.includes(permission));
+  }
+
+  canAccessSite(siteId: string | null | undefined): boolean {
+    const allowed = this.allowedSiteIds;
+    return !!siteId && (allowed === null || allowed.includes(siteId));
+  }
+
+  /**
+   * Site list restricted to the user's scope (order preserved)
+   */
+  filterSites<T extends Site>(sites: T[]): T[] {
+    const allowed = this.allowedSiteIds;
+    return allowed === null ? sites : sites.filter(site => allowed.includes(site.siteId));
+  }
+}
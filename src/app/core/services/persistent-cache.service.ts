@@ -0,0 +1,202 @@
+import { Injectable } from '@angular/core';
+import { PERSISTENT_CACHE_MAX_BYTES, PERSISTENT_CACHE_MAX_ENTRIES } from '../config/cache.config';
+
+/**
+ * One persisted HTTP response - the latest per request lineage (see CacheInterceptor)
+ */
+export interface PersistedResponse {
+  lineage: string;
+  canonical: string;
+  siteId: string;
+  url: string;
+  status: number;
+  body: unknown;
+  storedAt: number;
+  accessedAt: number;
+  size: number;
+}
+
+const DB_NAME = 'ks_cache';
+const DB_VERSION = 1;
+const STORE = 'responses';
+// Quota enforcement walks the whole store - run it at most this often
+const QUOTA_CHECK_INTERVAL = 30000;
+
+/**
+ * IndexedDB-backed response cache that survives reloads and lost connectivity
+ * Every method resolves (never rejects) - persistence is best-effort and must not break requests
+ * Unavailable IndexedDB (private browsing, old WebViews) simply behaves as an empty cache
+ */
+@Injectable({ providedIn: 'root' })
+export class PersistentCacheService {
+  private db: Promise<IDBDatabase | null> | null = null;
+  private lastQuotaCheck = 0;
+
+  async get(lineage: string): Promise<PersistedResponse | undefined> {
+    const db = await this.open();
+    if (!db) {
+      return undefined;
+    }
+    try {
+      const record = await request<PersistedResponse | undefined>(db.transaction(STORE).objectStore(STORE).get(lineage));
+      if (record) {
+        // Reads count as use for least-recently-used eviction
+        record.accessedAt = Date.now();
+        db.transaction(STORE, 'readwrite').objectStore(STORE).put(record);
+      }
+      return record;
+    } catch (err) {
+      this.logError('read', err);
+      return undefined;
+    }
+  }
+
+  async put(record: Omit<PersistedResponse, 'accessedAt' | 'size'>): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      return;
+    }
+    const full: PersistedResponse = {
+      ...record,
+      accessedAt: Date.now(),
+      // UTF-16 in memory - close enough to what the browser charges against quota
+      size: JSON.stringify(record.body ?? null).length * 2
+    };
+    if (full.size > PERSISTENT_CACHE_MAX_BYTES / 4) {
+      return; // A single huge response would evict everything else - not worth keeping
+    }
+    try {
+      await request(db.transaction(STORE, 'readwrite').objectStore(STORE).put(full));
+      await this.enforceQuota(db);
+    } catch (err) {
+      if ((err as DOMException)?.name === 'QuotaExceededError') {
+        // Browser quota hit before ours - free half the space and retry once
+        console.warn('⚠️ PersistentCache: Storage quota exceeded, evicting old responses');
+        await this.evict(db, PERSISTENT_CACHE_MAX_BYTES / 2, PERSISTENT_CACHE_MAX_ENTRIES / 2);
+        try {
+          await request(db.transaction(STORE, 'readwrite').objectStore(STORE).put(full));
+        } catch (retryErr) {
+          this.logError('write', retryErr);
+        }
+      } else {
+        this.logError('write', err);
+      }
+    }
+  }
+
+  /**
+   * Drop persisted responses for one site, or everything (logout - data must not outlive the session)
+   */
+  async clear(siteId?: string): Promise<void> {
+    const db = await this.open();
+    if (!db) {
+      return;
+    }
+    try {
+      const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+      if (!siteId) {
+        await request(store.clear());
+        return;
+      }
+      const records = await request<PersistedResponse[]>(store.getAll());
+      const writable = db.transaction(STORE, 'readwrite').objectStore(STORE);
+      records.filter(r => r.siteId === siteId).forEach(r => writable.delete(r.lineage));
+    } catch (err) {
+      this.logError('clear', err);
+    }
+  }
+
+  /**
+   * Bytes and entries currently persisted (for diagnostics)
+   */
+  async usage(): Promise<{ bytes: number; entries: number }> {
+    const db = await this.open();
+    if (!db) {
+      return { bytes: 0, entries: 0 };
+    }
+    try {
+      const records = await request<PersistedResponse[]>(db.transaction(STORE).objectStore(STORE).getAll());
+      return { bytes: records.reduce((sum, r) => sum + r.size, 0), entries: records.length };
+    } catch {
+      return { bytes: 0, entries: 0 };
+    }
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase | null>(resolve => {
+        if (typeof indexedDB === 'undefined') {
+          resolve(null);
+          return;
+        }
+        try {
+          const req = indexedDB.open(DB_NAME, DB_VERSION);
+          req.onupgradeneeded = () => {
+            const store = req.result.createObjectStore(STORE, { keyPath: 'lineage' });
+            store.createIndex('accessedAt', 'accessedAt');
+          };
+          req.onsuccess = () => resolve(req.result);
+          req.onerror = () => {
+            this.logError('open', req.error);
+            resolve(null);
+          };
+          req.onblocked = () => resolve(null);
+        } catch (err) {
+          this.logError('open', err);
+          resolve(null);
+        }
+      });
+    }
+    return this.db;
+  }
+
+  private async enforceQuota(db: IDBDatabase): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastQuotaCheck < QUOTA_CHECK_INTERVAL) {
+      return;
+    }
+    this.lastQuotaCheck = now;
+    await this.evict(db, PERSISTENT_CACHE_MAX_BYTES, PERSISTENT_CACHE_MAX_ENTRIES);
+  }
+
+  // Delete least recently used responses until both limits are met
+  private async evict(db: IDBDatabase, maxBytes: number, maxEntries: number): Promise<void> {
+    try {
+      const records = await request<PersistedResponse[]>(db.transaction(STORE).objectStore(STORE).getAll());
+      let bytes = records.reduce((sum, r) => sum + r.size, 0);
+      let entries = records.length;
+      if (bytes <= maxBytes && entries <= maxEntries) {
+        return;
+      }
+      const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+      for (const record of records.sort((a, b) => a.accessedAt - b.accessedAt)) {
+        if (bytes <= maxBytes && entries <= maxEntries) {
+          break;
+        }
+        store.delete(record.lineage);
+        bytes -= record.size;
+        entries--;
+      }
+    } catch (err) {
+      this.logError('evict', err);
+    }
+  }
+
+  private logError(operation: string, err: unknown): void {
+    const error = err as DOMException | undefined;
+    console.error('❌ PersistentCache: IndexedDB operation failed:', {
+      operation,
+      type: error?.name || 'IndexedDB Error',
+      message: error?.message,
+      timestamp: new Date().toISOString()
+    });
+  }
+}
+
+// Promise wrapper for a single IDBRequest
+function request<T>(req: IDBRequest): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result as T);
+    req.onerror = () => reject(req.error);
+  });
+}
@@ -0,0 +1,165 @@
+import { Injectable } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import {
+  Observable,
+  MonoTypeOperatorFunction,
+  OperatorFunction,
+  Subject,
+  catchError,
+  defer,
+  finalize,
+  map,
+  of,
+  retry,
+  share,
+  throwError,
+  timeout,
+  timer
+} from 'rxjs';
+import { ApiContractError } from '../models/api-contract';
+import { RequestPolicy, RetryPolicy } from './request-policies';
+
+// ============================================
+// POLICY OPERATORS
+// Each policy is a standalone RxJS operator so it can be reasoned
+// about (and tested) in isolation. RequestExecutor composes them.
+// ============================================
+
+/**
+ * Transient errors are worth retrying: network failures (status 0) and 5xx
+ * Contract errors and 4xx are not - the same request would fail the same way
+ * Neither are timeouts - a retry would double the wait before the fallback
+ */
+export function isTransientError(err: any): boolean {
+  if (err instanceof ApiContractError || err?.name === 'TimeoutError') {
+    return false;
+  }
+  return err?.status === 0 || (typeof err?.status === 'number' && err.status >= 500);
+}
+
+/**
+ * Time limit for the first response only - a stale-while-revalidate request answers
+ * from cache immediately and bounds its own background refresh (see CacheInterceptor)
+ */
+export function withTimeout<T>(timeoutMs: number): MonoTypeOperatorFunction<T> {
+  return source => source.pipe(timeout({ first: timeoutMs }));
+}
+
+/**
+ * Retry transient errors with exponential backoff
+ * delay for retry n (1-based) = delayMs * backoffFactor^(n-1)
+ */
+export function withRetry<T>(policy: RetryPolicy | null): MonoTypeOperatorFunction<T> {
+  if (!policy || policy.count <= 0) {
+    return source => source;
+  }
+  return retry<T>({
+    count: policy.count,
+    delay: (error, retryCount) => {
+      if (!isTransientError(error)) {
+        return throwError(() => error);
+      }
+      return timer(policy.delayMs * Math.pow(policy.backoffFactor, retryCount - 1));
+    }
+  });
+}
+
+export function withContract<T>(parse: (raw: unknown) => T): OperatorFunction<unknown, T> {
+  return map(parse);
+}
+
+export function withFallback<T, F>(fallback: F, onError: (err: any) => void): OperatorFunction<T, T | F> {
+  return catchError(err => {
+    onError(err);
+    return of(fallback);
+  });
+}
+
+@Injectable({ providedIn: 'root' })
+export class RequestExecutor {
+  // In-flight requests keyed by method + URL + body, shared between identical concurrent callers
+  private inFlight = new Map<string, Observable<unknown>>();
+
+  // Malformed backend payloads are reported here so the UI can surface them
+  private contractErrorsSubject = new Subject<ApiContractError>();
+  readonly contractErrors$ = this.contractErrorsSubject.asObservable();
+
+  constructor(private http: HttpClient) {}
+
+  get<T, F>(url: string, parse: (raw: unknown) => T, policy: RequestPolicy<F>): Observable<T | F> {
+    return this.execute(`GET:${url}`, () => this.http.get<unknown>(url), url, parse, policy);
+  }
+
+  post<T, F>(url: string, body: object, parse: (raw: unknown) => T, policy: RequestPolicy<F>): Observable<T | F> {
+    return this.execute(`POST:${url}:${JSON.stringify(body)}`, () => this.http.post<unknown>(url, body), url, parse, policy);
+  }
+
+  /**
+   * Run a request through the full pipeline:
+   * timeout -> contract validation -> retry/backoff -> fallback, optionally deduplicated
+   */
+  private execute<T, F>(
+    key: string,
+    send: () => Observable<unknown>,
+    url: string,
+    parse: (raw: unknown) => T,
+    policy: RequestPolicy<F>
+  ): Observable<T | F> {
+    const build = (): Observable<T | F> => send().pipe(
+      withTimeout(policy.timeoutMs),
+      withContract(parse),
+      withRetry(policy.retry),
+      withFallback(policy.fallback, err => this.report(err, url, policy))
+    );
+
+    if (!policy.dedupe) {
+      return defer(build);
+    }
+
+    return defer(() => {
+      const existing = this.inFlight.get(key) as Observable<T | F> | undefined;
+      if (existing) {
+        return existing;
+      }
+      const shared = build().pipe(
+        finalize(() => this.inFlight.delete(key)),
+        share()
+      );
+      this.inFlight.set(key, shared);
+      return shared;
+    });
+  }
+
+  private report(err: any, url: string, policy: RequestPolicy<unknown>): void {
+    if (err instanceof ApiContractError) {
+      console.error('🧩 API contract violation:', {
+        endpoint: err.endpoint,
+        path: err.path,
+        expected: err.expected,
+        received: err.received,
+        message: err.message,
+        timestamp: new Date().toISOString()
+      });
+      this.contractErrorsSubject.next(err);
+      return;
+    }
+
+    const errorInfo = {
+      type: err.name || 'HTTP Error',
+      status: err.status,
+      statusText: err.statusText,
+      message: err.message,
+      error: err.error,
+      url,
+      timestamp: new Date().toISOString()
+    };
+
+    if (err.status === 404 && policy.notFoundIsExpected) {
+      console.warn(`⚠️ ${policy.label} data not found (404):`, errorInfo);
+    } else if (err.name === 'TimeoutError') {
+      console.error(`⏱️ ${policy.label} request timeout after ${policy.timeoutMs / 1000}s:`, errorInfo);
+    } else {
+      console.error(`❌ ${policy.label} request failed:`, errorInfo);
+    }
+  }
+}
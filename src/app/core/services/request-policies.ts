@@ -0,0 +1,84 @@
+// ============================================
+// REQUEST POLICIES
+// Per-endpoint timeout, retry/backoff, deduplication and fallback
+// settings used by RequestExecutor. Tune behaviour here instead of
+// inside individual ApiService methods.
+// ============================================
+
+import { EntryExitPage, Site } from '../models/api.models';
+
+export interface RetryPolicy {
+  count: number; // Number of retries after the first attempt
+  delayMs: number; // Delay before the first retry
+  backoffFactor: number; // Multiplier applied to the delay for each further retry
+}
+
+export interface RequestPolicy<F> {
+  label: string; // Human-readable name used in logs (e.g. "Footfall")
+  timeoutMs: number;
+  retry: RetryPolicy | null;
+  dedupe: boolean; // Share one in-flight request between identical concurrent calls
+  fallback: F; // Value emitted when the request ultimately fails
+  notFoundIsExpected: boolean; // Log 404 as a warning instead of an error
+}
+
+const DEFAULT_TIMEOUT = 15000; // 15 seconds (balanced: allows backend processing time while still detecting failures)
+const ENTRY_EXIT_TIMEOUT = 30000; // 30 seconds (entry-exit alone takes 22+ seconds)
+
+// Transient failures (network errors, 5xx) get one quick retry - timeouts are never retried
+const TRANSIENT_RETRY: RetryPolicy = { count: 1, delayMs: 500, backoffFactor: 2 };
+
+export const SITES_POLICY: RequestPolicy<Site[]> = {
+  label: 'Sites',
+  timeoutMs: DEFAULT_TIMEOUT,
+  retry: TRANSIENT_RETRY,
+  dedupe: true,
+  fallback: [],
+  notFoundIsExpected: false
+};
+
+export const FOOTFALL_POLICY: RequestPolicy<null> = {
+  label: 'Footfall',
+  timeoutMs: DEFAULT_TIMEOUT,
+  retry: TRANSIENT_RETRY,
+  dedupe: true,
+  fallback: null,
+  notFoundIsExpected: false
+};
+
+export const DWELL_POLICY: RequestPolicy<null> = {
+  label: 'Dwell',
+  timeoutMs: DEFAULT_TIMEOUT,
+  retry: TRANSIENT_RETRY,
+  dedupe: true,
+  fallback: null,
+  notFoundIsExpected: false
+};
+
+export const OCCUPANCY_POLICY: RequestPolicy<null> = {
+  label: 'Occupancy',
+  timeoutMs: DEFAULT_TIMEOUT,
+  retry: TRANSIENT_RETRY,
+  dedupe: true,
+  fallback: null,
+  notFoundIsExpected: true
+};
+
+export const DEMOGRAPHICS_POLICY: RequestPolicy<null> = {
+  label: 'Demographics',
+  timeoutMs: DEFAULT_TIMEOUT,
+  retry: TRANSIENT_RETRY,
+  dedupe: true,
+  fallback: null,
+  notFoundIsExpected: true
+};
+
+// Entry-exit takes 22+ seconds on the backend - a longer timeout and no retries at all
+export const ENTRY_EXIT_POLICY: RequestPolicy<EntryExitPage> = {
+  label: 'Entry-exit',
+  timeoutMs: ENTRY_EXIT_TIMEOUT,
+  retry: null,
+  dedupe: true,
+  fallback: { records: [], totalRecords: 0 },
+  notFoundIsExpected: false
+};
@@ -0,0 +1,205 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Subscription, concatMap, from, map, timer } from 'rxjs';
+import { SocketService } from './socket.service';
+import { AuthService } from './auth.service';
+import { RECORDER_MAX_EVENTS, RECORDING_FORMAT_VERSION, ReplaySpeed } from '../config/devtools.config';
+
+/**
+ * One captured event - offsetMs counts from the start of the recording
+ */
+export interface RecordedEvent {
+  offsetMs: number;
+  event: string;
+  data: unknown;
+}
+
+/**
+ * Downloadable recording (JSON)
+ */
+export interface SocketRecording {
+  version: number;
+  recordedAt: number; // Epoch ms of the first event window
+  siteId: string | null; // Site selected while recording
+  events: RecordedEvent[];
+}
+
+export interface RecorderState {
+  mode: 'idle' | 'recording' | 'replaying';
+  recordedCount: number; // Events in the current recording
+  replayedCount: number; // Events replayed so far (while replaying)
+  replayTotal: number;
+}
+
+/**
+ * Developer tool: capture live socket events to a file, and replay a file into
+ * SocketService's streams at 1x/10x/100x - the dashboard, bell and entries react
+ * as they would live, no backend needed
+ */
+@Injectable({ providedIn: 'root' })
+export class SocketRecorderService implements OnDestroy {
+  private recording: SocketRecording | null = null;
+  private recordSubscription?: Subscription;
+  private replaySubscription?: Subscription;
+  private replayRun = 0; // Makes event IDs unique per replay, so de-duplication doesn't swallow a second run
+  private stateSubject = new BehaviorSubject<RecorderState>({ mode: 'idle', recordedCount: 0, replayedCount: 0, replayTotal: 0 });
+
+  state$ = this.stateSubject.asObservable();
+
+  constructor(private socket: SocketService, private auth: AuthService) {}
+
+  ngOnDestroy(): void {
+    this.stop();
+  }
+
+  get hasRecording(): boolean {
+    return !!this.recording?.events.length;
+  }
+
+  /**
+   * Start a new recording (drops the previous one)
+   */
+  startRecording(): void {
+    this.stop();
+    const startedAt = Date.now();
+    const recording: SocketRecording = {
+      version: RECORDING_FORMAT_VERSION,
+      recordedAt: startedAt,
+      siteId: this.auth.getSiteId(),
+      events: []
+    };
+    this.recording = recording;
+    this.setState({ mode: 'recording', recordedCount: 0, replayedCount: 0, replayTotal: 0 });
+    this.recordSubscription = this.socket.received$.subscribe(({ event, data, at }) => {
+      recording.events.push({ offsetMs: at - startedAt, event, data });
+      this.setState({ recordedCount: recording.events.length });
+      if (recording.events.length >= RECORDER_MAX_EVENTS) {
+        console.warn('⚠️ SocketRecorderService: Recording stopped at the event limit:', {
+          limit: RECORDER_MAX_EVENTS,
+          timestamp: new Date().toISOString()
+        });
+        this.stop();
+      }
+    });
+  }
+
+  /**
+   * Stop recording or replaying
+   */
+  stop(): void {
+    this.recordSubscription?.unsubscribe();
+    this.recordSubscription = undefined;
+    this.replaySubscription?.unsubscribe();
+    this.replaySubscription = undefined;
+    this.setState({ mode: 'idle', replayedCount: 0, replayTotal: 0 });
+  }
+
+  /**
+   * Save the current recording as socket-recording-<site>-<time>.json
+   */
+  download(): void {
+    if (!this.recording) {
+      return;
+    }
+    const blob = new Blob([JSON.stringify(this.recording)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const stamp = new Date(this.recording.recordedAt).toISOString().replace(/[:.]/g, '-');
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `socket-recording-${this.recording.siteId || 'all'}-${stamp}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Load a recording file - it becomes the current recording, ready to replay
+   * Rejects with a readable message when the file isn't a recording
+   */
+  async load(file: File): Promise<SocketRecording> {
+    const text = await file.text();
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new Error(`${file.name} is not valid JSON`);
+    }
+    const recording = parsed as Partial<SocketRecording> | null;
+    if (!recording || !Array.isArray(recording.events) || recording.events.some(e => typeof e?.event !== 'string' || typeof e?.offsetMs !== 'number')) {
+      throw new Error(`${file.name} is not a socket recording`);
+    }
+    this.stop();
+    this.recording = {
+      version: recording.version ?? RECORDING_FORMAT_VERSION,
+      recordedAt: recording.recordedAt ?? 0,
+      siteId: recording.siteId ?? null,
+      // Offsets in order - hand-edited files may not be
+      events: [...recording.events].sort((a, b) => a.offsetMs - b.offsetMs)
+    };
+    this.setState({ recordedCount: this.recording.events.length });
+    return this.recording;
+  }
+
+  /**
+   * Replay the current recording into SocketService at the given speed
+   * Events are re-stamped with the current time and, unless disabled, moved to the
+   * selected site (SocketService drops other sites' events, as it would live)
+   */
+  replay(speed: ReplaySpeed, retargetToCurrentSite = true): void {
+    const recording = this.recording;
+    if (!recording?.events.length) {
+      return;
+    }
+    this.stop();
+    const siteId = this.auth.getSiteId();
+    const run = ++this.replayRun;
+    let previousOffset = recording.events[0].offsetMs;
+    let replayed = 0;
+    this.setState({ mode: 'replaying', replayedCount: 0, replayTotal: recording.events.length });
+
+    this.replaySubscription = from(recording.events).pipe(
+      concatMap(recorded => {
+        const delay = (recorded.offsetMs - previousOffset) / speed;
+        previousOffset = recorded.offsetMs;
+        return timer(Math.max(0, delay)).pipe(map(() => recorded));
+      })
+    ).subscribe({
+      next: recorded => {
+        const data = this.restamp(recorded.data, retargetToCurrentSite ? siteId : null, run);
+        this.socket.injectEvent(recorded.event, data);
+        replayed++;
+        this.setState({ replayedCount: replayed });
+      },
+      complete: () => {
+        this.replaySubscription = undefined;
+        this.setState({ mode: 'idle' });
+      }
+    });
+  }
+
+  // Fresh timestamps and event IDs, optionally another site, and a replay marker
+  private restamp(data: unknown, siteId: string | null, run: number): unknown {
+    if (data === null || typeof data !== 'object' || Array.isArray(data)) {
+      return data;
+    }
+    const copy: Record<string, unknown> = { ...(data as Record<string, unknown>) };
+    const now = Date.now();
+    if ('ts' in copy) {
+      copy['ts'] = now;
+    }
+    if ('timestamp' in copy) {
+      copy['timestamp'] = now;
+    }
+    if (typeof copy['eventId'] === 'string') {
+      copy['eventId'] = `${copy['eventId']}#replay${run}`;
+    }
+    if (siteId && 'siteId' in copy) {
+      copy['siteId'] = siteId;
+    }
+    // Replayed alerts stay out of stored history and don't sound alarms
+    copy['source'] = 'replay';
+    return copy;
+  }
+
+  private setState(patch: Partial<RecorderState>): void {
+    this.stateSubject.next({ ...this.stateSubject.value, ...patch });
+  }
+}
@@ -1,8 +1,23 @@
 import { Injectable, OnDestroy } from '@angular/core';
 import { io, Socket } from 'socket.io-client';
-import { Observable, Subject, share } from 'rxjs';
+import { BehaviorSubject, Observable, Subject, Subscription, filter, map, share } from 'rxjs';
 import { environment } from '../../../environments/environment';
 import { AuthService } from './auth.service';
+import { CrossTabSyncService } from './cross-tab-sync.service';
+import { NetworkStatusService } from './network-status.service';
+import { SiteService } from './site.service';
+import { SHARE_SOCKET_ACROSS_TABS } from '../config/cross-tab.config';
+import {
+  LATENCY_PROBE_EVENT,
+  LATENCY_PROBE_INTERVAL_MS,
+  LATENCY_PROBE_TIMEOUT_MS,
+  SITE_JOIN_EVENT,
+  SITE_LEAVE_EVENT
+} from '../config/socket.config';
+import { ConnectionState, ConnectionStatus, SiteScopedEvent, SocketEventMap, SocketEventName } from '../models/socket.models';
+import { SOCKET_EVENT_NORMALIZERS } from '../models/socket-contract';
+import { isMockBackend } from '../config/mock-backend.config';
+import { MockSocketEmitter } from '../mock/mock-socket.emitter';
 
 @Injectable({ providedIn: 'root' })
 export class SocketService implements OnDestroy {
@@ -12,8 +27,60 @@ export class SocketService implements OnDestroy {
   private reconnectAttempts = 0;
   private lastDisconnectReason: string | null = null;
   private suppressRoutineWarnings = false; // Flag to suppress routine disconnect warnings
+  private mockEmitter: MockSocketEmitter | null = null; // Replaces the Socket.IO connection in mock mode
+  private refreshingToken = false; // Token refresh in flight on behalf of the socket
+  private authRetried = false; // One refresh per rejected handshake - reset on successful connect
+  private tokenRefreshSubscription: Subscription;
+  // Shared socket (SHARE_SOCKET_ACROSS_TABS): events relayed by the leader tab, and the leadership watch
+  private relaySubscription?: Subscription;
+  private leaderSubscription?: Subscription;
+  private networkSubscription: Subscription;
+  private siteChangeSubscription: Subscription;
+  private roomSiteId: string | null = null; // Site room joined on the current connection
+  private latencyTimer: ReturnType<typeof setInterval> | null = null;
+  private connectionStateSubject = new BehaviorSubject<ConnectionState>({
+    status: 'connecting',
+    since: Date.now(),
+    attempt: 0,
+    latencyMs: null
+  });
 
-  constructor(private auth: AuthService) {}
+  private lastEventAtSubject = new BehaviorSubject<number | null>(null);
+  private receivedSubject = new Subject<{ event: string; data: unknown; at: number }>();
+
+  // Connection lifecycle and latency - replaces polling isConnectionHealthy()
+  connectionState$ = this.connectionStateSubject.asObservable();
+  // Receipt time of the most recent event of any kind (null until the first one)
+  lastEventAt$ = this.lastEventAtSubject.asObservable();
+  // Every event as received, raw - listened to or not (SocketRecorderService)
+  received$ = this.receivedSubject.asObservable();
+
+  constructor(
+    private auth: AuthService,
+    private tabSync: CrossTabSyncService,
+    private network: NetworkStatusService,
+    private siteService: SiteService
+  ) {
+    // Silent refreshes (AuthService timer or HTTP 401 handling) - next handshake uses the new token
+    this.tokenRefreshSubscription = this.auth.tokenRefreshed$.subscribe(token => this.applyToken(token));
+
+    // Browser offline while not connected is "offline", not an endless "reconnecting"
+    this.networkSubscription = this.network.status$.subscribe(status => {
+      const current = this.connectionStateSubject.value.status;
+      if (!status.online && current !== 'connected' && current !== 'auth-failed') {
+        this.setConnectionState('offline');
+      } else if (status.online && current === 'offline' && this.socket && !this.socket.connected) {
+        this.setConnectionState('reconnecting');
+      }
+    });
+
+    // Only receive the viewed site's events
+    this.siteChangeSubscription = this.siteService.siteChange$.subscribe(siteId => this.joinSiteRoom(siteId));
+  }
+
+  get connectionState(): ConnectionState {
+    return this.connectionStateSubject.value;
+  }
 
   private initializeSocket(): void {
     if (this.isInitializing || this.socket?.connected) {
@@ -26,13 +93,14 @@ export class SocketService implements OnDestroy {
       return;
     }
 
-    // Check if token is expired before attempting connection
+    // Check if token is expired before attempting connection - refresh, then connect
     if (this.auth.isTokenExpired()) {
-      console.warn('⚠️ SocketService: Cannot initialize socket - token expired:', {
+      console.warn('⚠️ SocketService: Token expired, refreshing before connecting:', {
         expiration: this.auth.getTokenExpiration(),
         timeUntilExpiration: this.auth.getTimeUntilExpiration(),
         timestamp: new Date().toISOString()
       });
+      this.refreshAndReconnect();
       return;
     }
 
@@ -90,12 +158,33 @@ export class SocketService implements OnDestroy {
       // Authentication is handled via Authorization header, not cookies
     });
 
+    this.setConnectionState('connecting');
+
+    // Re-attach events subscribed before this socket existed (e.g. while a token refresh ran)
+    this.eventSubjects.forEach((subject, event) => {
+      this.socket?.on(event, (data: any) => subject.next(data));
+    });
+
+    this.socket.onAny((event: string, data: unknown) => {
+      this.noteReceived(event, data);
+      // Leader of the shared socket: pass every event on to the other tabs
+      if (SHARE_SOCKET_ACROSS_TABS) {
+        this.tabSync.publish({ type: 'socket-event', event, data });
+      }
+    });
+
     this.socket.on('connect', () => {
       this.isInitializing = false;
+      this.authRetried = false;
       this.reconnectAttempts = 0;
       this.suppressRoutineWarnings = false;
       const transport = this.socket?.io?.engine?.transport?.name || 'unknown';
       console.log(`✅ Socket.IO connected successfully (transport: ${transport})`);
+      // A new connection starts in no room - (re-)join the current site's
+      this.roomSiteId = null;
+      this.joinSiteRoom(this.auth.getSiteId());
+      this.setConnectionState('connected');
+      this.startLatencyProbe();
     });
 
     this.socket.on('connect_error', (error: any) => {
@@ -118,22 +207,42 @@ export class SocketService implements OnDestroy {
         });
       }
       
-      // If error is due to authentication, check token expiration
+      // If error is due to authentication, stop retrying with the rejected token and refresh it
       if (error.message?.includes('auth') || error.message?.includes('token') || 
           error.message?.includes('401') || error.message?.includes('403')) {
-        if (this.auth.isTokenExpired()) {
-          console.warn('⚠️ Socket.IO: Connection failed due to expired token');
-          // Disable reconnection if token is expired
+        if (this.auth.isTokenExpired() || !this.authRetried) {
+          console.warn('⚠️ Socket.IO: Connection rejected - refreshing token');
+          this.authRetried = true;
           if (this.socket) {
             this.socket.disconnect();
           }
+          this.refreshAndReconnect();
+        } else {
+          // Rejected again with a freshly refreshed token - stop hammering the server
+          console.error('❌ Socket.IO: Connection rejected after token refresh');
+          if (this.socket) {
+            this.socket.disconnect();
+          }
+          this.setConnectionState('auth-failed');
         }
+        return;
       }
+      this.setConnectionState(this.network.isOnline ? 'reconnecting' : 'offline', this.reconnectAttempts);
     });
 
     this.socket.on('disconnect', (reason) => {
       this.isInitializing = false;
       this.lastDisconnectReason = reason;
+      this.roomSiteId = null;
+      this.stopLatencyProbe();
+      // Closed on purpose (logout, auth failure) - Socket.IO won't retry
+      if (reason === 'io client disconnect') {
+        if (this.connectionStateSubject.value.status !== 'auth-failed') {
+          this.setConnectionState('offline');
+        }
+      } else {
+        this.setConnectionState(this.network.isOnline ? 'reconnecting' : 'offline');
+      }
       
       // Suppress routine disconnect warnings during reconnection attempts
       // Only log if it's a significant disconnect reason or first disconnect
@@ -153,52 +262,126 @@ export class SocketService implements OnDestroy {
         this.suppressRoutineWarnings = true;
       }
       
-      // If disconnected due to authentication issues, don't auto-reconnect if token is expired
+      // If disconnected with an expired token, reconnect only after a refresh
       if (reason === 'io server disconnect' || reason === 'transport close') {
         if (this.auth.isTokenExpired()) {
-          console.warn('⚠️ Socket.IO: Not reconnecting - token expired');
+          console.warn('⚠️ Socket.IO: Token expired - refreshing before reconnecting');
           if (this.socket) {
             this.socket.disconnect();
           }
+          this.refreshAndReconnect();
         }
       }
     });
     
     // Track reconnection attempts
-    this.socket.on('reconnect_attempt', (attemptNumber) => {
+    // Reconnection events come from the Manager, which io() reuses between sockets
+    // for the same URL - drop the previous socket's handlers first
+    const manager = this.socket.io;
+    manager.off('reconnect_attempt').off('reconnect').off('reconnect_failed');
+
+    manager.on('reconnect_attempt', (attemptNumber) => {
       this.reconnectAttempts = attemptNumber;
       // Suppress warnings during reconnection attempts
       this.suppressRoutineWarnings = true;
+      if (this.network.isOnline) {
+        this.setConnectionState('reconnecting', attemptNumber);
+      }
     });
     
-    this.socket.on('reconnect', (attemptNumber) => {
+    manager.on('reconnect', (attemptNumber) => {
       this.reconnectAttempts = 0;
       this.suppressRoutineWarnings = false;
       console.log(`✅ Socket.IO reconnected after ${attemptNumber} attempt(s)`);
     });
     
-    this.socket.on('reconnect_failed', () => {
+    manager.on('reconnect_failed', () => {
       this.suppressRoutineWarnings = false;
       console.error('❌ Socket.IO: Reconnection failed after all attempts');
     });
   }
 
+  /**
+   * Connect now instead of waiting for Socket.IO's backoff (header reconnect action)
+   * Also grants a rejected handshake one more token refresh
+   */
   reconnect(): void {
-    if (this.socket?.connected) {
+    if (this.socket?.connected || this.mockEmitter?.running) {
       return;
     }
+    this.authRetried = false;
     
     // Check token before attempting reconnection
     const token = this.auth.getToken();
-    if (!token || this.auth.isTokenExpired()) {
-      console.warn('⚠️ SocketService: Cannot reconnect - token missing or expired');
+    if (!token) {
+      console.warn('⚠️ SocketService: Cannot reconnect - token missing');
+      return;
+    }
+    if (this.auth.isTokenExpired()) {
+      this.refreshAndReconnect();
       return;
     }
     
+    if (isMockBackend()) {
+      this.startMockEmitter();
+      return;
+    }
     this.initializeSocket();
   }
 
-  listen(event: string): Observable<any> {
+  /**
+   * Subscribe to a socket event
+   * Typed events (SocketEventMap) arrive normalized - payloads that can't be
+   * normalized, or that belong to another site, are dropped; any other event
+   * is passed through as received
+   */
+  listen<K extends SocketEventName>(event: K): Observable<SocketEventMap[K]>;
+  listen(event: string): Observable<unknown>;
+  listen(event: string): Observable<unknown> {
+    const normalize = (SOCKET_EVENT_NORMALIZERS as Record<string, (raw: unknown) => unknown>)[event];
+    const raw$ = this.listenRaw(event);
+    return normalize
+      ? raw$.pipe(
+          map(data => normalize(data) as SiteScopedEvent | null),
+          filter((data): data is SiteScopedEvent => data !== null && this.isCurrentSite(data))
+        )
+      : raw$;
+  }
+
+  // Events without a siteId (single-site backends) are accepted
+  private isCurrentSite(event: SiteScopedEvent): boolean {
+    const siteId = this.auth.getSiteId();
+    return !event.siteId || !siteId || event.siteId === siteId;
+  }
+
+  /**
+   * Move the connection to siteId's room (leaving the previous one)
+   * Not connected yet - the 'connect' handler joins then. Mock mode has no rooms:
+   * the emitter only produces the selected site's events anyway
+   */
+  private joinSiteRoom(siteId: string | null): void {
+    if (!this.socket?.connected || siteId === this.roomSiteId) {
+      return;
+    }
+    if (this.roomSiteId) {
+      this.socket.emit(SITE_LEAVE_EVENT, { siteId: this.roomSiteId });
+    }
+    if (siteId) {
+      this.socket.emit(SITE_JOIN_EVENT, { siteId });
+    }
+    this.roomSiteId = siteId;
+  }
+
+  private listenRaw(event: string): Observable<any> {
+    // Another tab owns the shared socket (or the election is still running) - use its relay
+    if (SHARE_SOCKET_ACROSS_TABS && !this.tabSync.isSocketLeader) {
+      return this.listenRelayed(event);
+    }
+
+    if (isMockBackend()) {
+      return this.listenMock(event);
+    }
+
     // Shared observable pattern: one socket listener per event, multiple subscribers share the same observable
     if (!this.eventSubjects.has(event)) {
       const subject = new Subject<any>();
@@ -214,11 +397,12 @@ export class SocketService implements OnDestroy {
 
       if (!this.socket && !this.isInitializing) {
         // Check token before initializing
+        // (an expired token is refreshed first - listeners are attached once the socket exists)
         const token = this.auth.getToken();
-        if (token && !this.auth.isTokenExpired()) {
+        if (token) {
           this.initializeSocket();
         } else {
-          console.warn('⚠️ SocketService: Cannot setup listener - token missing or expired');
+          console.warn('⚠️ SocketService: Cannot setup listener - token missing');
         }
       }
 
@@ -261,20 +445,172 @@ export class SocketService implements OnDestroy {
     return this.eventSubjects.get(event)!.asObservable().pipe(share());
   }
 
+  // Bookkeeping for every event from the socket, the mock emitter or the leader tab
+  private noteReceived(event: string, data: unknown): void {
+    const at = Date.now();
+    this.lastEventAtSubject.next(at);
+    this.receivedSubject.next({ event, data, at });
+  }
+
+  /**
+   * Feed a locally produced payload into the listen() streams, as if the socket had sent it
+   * Used by the REST polling fallback and the replayer; doesn't count as a socket event
+   * (lastEventAt$, received$)
+   */
+  injectEvent(event: string, data: unknown): void {
+    this.eventSubjects.get(event)?.next(data);
+  }
+
   /**
-   * Check if socket connection is healthy (connected and token is valid)
+   * Refresh the token (shared with any HTTP refresh in flight), then reconnect with it
+   * A rejected refresh ends the session - AuthService.sessionExpired$ takes over from there
    */
-  isConnectionHealthy(): boolean {
-    if (!this.socket?.connected) {
-      return false;
+  private refreshAndReconnect(): void {
+    if (this.refreshingToken) {
+      return;
+    }
+    this.refreshingToken = true;
+    this.auth.refreshToken().subscribe({
+      next: token => {
+        this.refreshingToken = false;
+        this.applyToken(token);
+        if (isMockBackend()) {
+          this.startMockEmitter();
+        } else if (this.socket) {
+          this.socket.connect();
+        } else {
+          this.initializeSocket();
+        }
+      },
+      error: () => {
+        this.refreshingToken = false;
+        this.setConnectionState('auth-failed');
+      }
+    });
+  }
+
+  // Handshake credentials used by the next (re)connect of the existing socket
+  private applyToken(token: string): void {
+    if (!this.socket) {
+      return;
+    }
+    this.socket.auth = { token };
+    this.socket.io.opts.extraHeaders = { Authorization: `Bearer ${token}` };
+  }
+
+  // Shared socket follower: same shared-subject contract as listen(), fed by the leader tab
+  // (connection state mirrors the leader's)
+  private listenRelayed(event: string): Observable<any> {
+    if (!this.eventSubjects.has(event)) {
+      this.eventSubjects.set(event, new Subject<any>());
+    }
+    if (!this.leaderSubscription) {
+      this.relaySubscription = this.tabSync.messages$.subscribe(message => {
+        if (message.type === 'socket-event') {
+          this.noteReceived(message.event, message.data);
+          this.eventSubjects.get(message.event)?.next(message.data);
+        } else if (message.type === 'socket-state') {
+          this.connectionStateSubject.next(message.state);
+        }
+      });
+      // Leader tab closed (or this is the first tab) - take over the connection
+      this.leaderSubscription = this.tabSync.socketLeader$.pipe(filter(Boolean)).subscribe(() => {
+        this.relaySubscription?.unsubscribe();
+        this.relaySubscription = undefined;
+        this.reconnect();
+      });
+      this.tabSync.requestSocketLeadership();
+    }
+    return this.eventSubjects.get(event)!.asObservable().pipe(share());
+  }
+
+  // Mock mode: same shared-subject contract as listen(), fed by MockSocketEmitter instead of a socket
+  private listenMock(event: string): Observable<any> {
+    if (!this.eventSubjects.has(event)) {
+      this.eventSubjects.set(event, new Subject<any>());
     }
-    
     const token = this.auth.getToken();
-    if (!token || this.auth.isTokenExpired()) {
-      return false;
+    if (!token) {
+      console.warn('⚠️ SocketService: Cannot setup listener - token missing');
+    } else if (this.auth.isTokenExpired()) {
+      this.refreshAndReconnect();
+    } else {
+      this.startMockEmitter();
+    }
+    return this.eventSubjects.get(event)!.asObservable().pipe(share());
+  }
+
+  private startMockEmitter(): void {
+    if (!this.mockEmitter) {
+      this.mockEmitter = new MockSocketEmitter(
+        (event, data) => {
+          this.noteReceived(event, data);
+          this.eventSubjects.get(event)?.next(data);
+          if (SHARE_SOCKET_ACROSS_TABS) {
+            this.tabSync.publish({ type: 'socket-event', event, data });
+          }
+        },
+        () => this.auth.getSiteId()
+      );
+    }
+    this.mockEmitter.start();
+    this.setConnectionState('connected');
+  }
+
+  /**
+   * Enter a connection status (attempt counts reconnection tries)
+   * The leader of a shared socket passes its state on to the other tabs
+   */
+  private setConnectionState(status: ConnectionStatus, attempt = 0): void {
+    const current = this.connectionStateSubject.value;
+    if (current.status === status && current.attempt === attempt) {
+      return;
+    }
+    const state: ConnectionState = {
+      status,
+      since: current.status === status ? current.since : Date.now(),
+      attempt,
+      latencyMs: status === 'connected' ? current.latencyMs : null
+    };
+    this.connectionStateSubject.next(state);
+    if (SHARE_SOCKET_ACROSS_TABS && this.tabSync.isSocketLeader) {
+      this.tabSync.publish({ type: 'socket-state', state });
+    }
+  }
+
+  private setLatency(latencyMs: number): void {
+    const current = this.connectionStateSubject.value;
+    if (current.status !== 'connected') {
+      return;
+    }
+    const state = { ...current, latencyMs };
+    this.connectionStateSubject.next(state);
+    if (SHARE_SOCKET_ACROSS_TABS && this.tabSync.isSocketLeader) {
+      this.tabSync.publish({ type: 'socket-state', state });
+    }
+  }
+
+  // Round trip of an acknowledged probe, right away and then every LATENCY_PROBE_INTERVAL_MS
+  private startLatencyProbe(): void {
+    this.stopLatencyProbe();
+    const probe = () => {
+      const sentAt = Date.now();
+      this.socket?.timeout(LATENCY_PROBE_TIMEOUT_MS).emit(LATENCY_PROBE_EVENT, sentAt, (err: Error | null) => {
+        // No acknowledgement - backend doesn't support the probe or the link is slow; keep the last value
+        if (!err) {
+          this.setLatency(Date.now() - sentAt);
+        }
+      });
+    };
+    probe();
+    this.latencyTimer = setInterval(probe, LATENCY_PROBE_INTERVAL_MS);
+  }
+
+  private stopLatencyProbe(): void {
+    if (this.latencyTimer) {
+      clearInterval(this.latencyTimer);
+      this.latencyTimer = null;
     }
-    
-    return true;
   }
 
   /**
@@ -290,7 +626,7 @@ export class SocketService implements OnDestroy {
     const tokenExpired = !token || this.auth.isTokenExpired();
     
     return {
-      connected: this.socket?.connected || false,
+      connected: this.socket?.connected || this.mockEmitter?.running || false,
       tokenValid: !!token && !tokenExpired,
       tokenExpired: tokenExpired,
       timeUntilExpiration: this.auth.getTimeUntilExpiration()
@@ -300,6 +636,13 @@ export class SocketService implements OnDestroy {
   disconnect(): void {
     this.eventSubjects.forEach(subject => subject.complete());
     this.eventSubjects.clear();
+    this.mockEmitter?.stop();
+    this.relaySubscription?.unsubscribe();
+    this.relaySubscription = undefined;
+    this.leaderSubscription?.unsubscribe();
+    this.leaderSubscription = undefined;
+    this.tabSync.resignSocketLeadership();
+    this.stopLatencyProbe();
 
     if (this.socket) {
       this.socket.removeAllListeners();
@@ -307,9 +650,13 @@ export class SocketService implements OnDestroy {
       this.socket = null;
     }
     this.isInitializing = false;
+    this.setConnectionState('offline');
   }
 
   ngOnDestroy(): void {
+    this.tokenRefreshSubscription.unsubscribe();
+    this.networkSubscription.unsubscribe();
+    this.siteChangeSubscription.unsubscribe();
     this.disconnect();
   }
 }
@@ -0,0 +1,239 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject } from 'rxjs';
+import { Site } from '../models/api.models';
+
+/**
+ * 'site'   - times and chart labels are shown in the selected site's IANA timezone
+ * 'viewer' - they are shown in the browser's timezone instead
+ * Day windows and "today" always follow the site's timezone (operating hours are
+ * wall-clock times there) - the mode only changes how instants are labelled
+ */
+export type TimeDisplayMode = 'site' | 'viewer';
+
+/**
+ * Calendar day independent of any timezone (month is 0-based, like Date)
+ */
+export interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+interface ZonedParts extends CalendarDate {
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// Intl.DateTimeFormat construction is expensive - keep one per zone
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock components of a UTC instant in the given timezone
+ */
+export function zonedParts(utcMs: number, timeZone: string): ZonedParts {
+  const values: Record<string, number> = {};
+  for (const part of partsFormatter(timeZone).formatToParts(utcMs)) {
+    if (part.type !== 'literal') {
+      values[part.type] = Number(part.value);
+    }
+  }
+  return {
+    year: values['year'],
+    month: values['month'] - 1,
+    day: values['day'],
+    hour: values['hour'],
+    minute: values['minute'],
+    second: values['second']
+  };
+}
+
+// Offset (local - UTC) in milliseconds of a timezone at a given instant
+function offsetAt(utcMs: number, timeZone: string): number {
+  const p = zonedParts(utcMs, timeZone);
+  const asUtc = Date.UTC(p.year, p.month, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(utcMs / 1000) * 1000;
+}
+
+/**
+ * UTC instant of a wall-clock time in the given timezone
+ * minutesOfDay may exceed 24h (e.g. closing time after midnight) - Date.UTC normalizes the overflow
+ */
+export function zonedTimeToUtc(date: CalendarDate, minutesOfDay: number, timeZone: string): number {
+  const wallClock = Date.UTC(date.year, date.month, date.day, 0, minutesOfDay, 0, 0);
+  // First guess uses the offset at the wall-clock instant; a second pass corrects across DST transitions
+  const firstGuess = wallClock - offsetAt(wallClock, timeZone);
+  const secondOffset = offsetAt(firstGuess, timeZone);
+  return wallClock - secondOffset;
+}
+
+/**
+ * Shift a calendar day by n days (handles month/year rollover)
+ */
+export function addDays(date: CalendarDate, days: number): CalendarDate {
+  const shifted = new Date(Date.UTC(date.year, date.month, date.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth(), day: shifted.getUTCDate() };
+}
+
+/**
+ * "YYYY-MM-DD" - the form a calendar day takes in URLs and bookmarks
+ */
+export function formatIsoDate(date: CalendarDate): string {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.year}-${pad(date.month + 1)}-${pad(date.day)}`;
+}
+
+/**
+ * Parse "YYYY-MM-DD"; null for anything malformed or not a real day (e.g. 2025-02-30)
+ */
+export function parseIsoDate(text: string | null | undefined): CalendarDate | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text || '');
+  if (!match) {
+    return null;
+  }
+  const date = { year: Number(match[1]), month: Number(match[2]) - 1, day: Number(match[3]) };
+  const check = new Date(Date.UTC(date.year, date.month, date.day));
+  if (check.getUTCFullYear() !== date.year || check.getUTCMonth() !== date.month || check.getUTCDate() !== date.day) {
+    return null;
+  }
+  return date;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    partsFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+@Injectable({ providedIn: 'root' })
+export class TimezoneService {
+  private modeKey = 'ks_time_display';
+  // IANA timezone per site, from /api/sites or the timezone field of analytics responses
+  private siteZones = new Map<string, string>();
+  private modeSubject = new BehaviorSubject<TimeDisplayMode>(
+    localStorage.getItem(this.modeKey) === 'viewer' ? 'viewer' : 'site'
+  );
+  mode$ = this.modeSubject.asObservable();
+
+  get mode(): TimeDisplayMode {
+    return this.modeSubject.value;
+  }
+
+  setMode(mode: TimeDisplayMode): void {
+    if (mode === this.modeSubject.value) {
+      return;
+    }
+    localStorage.setItem(this.modeKey, mode);
+    this.modeSubject.next(mode);
+  }
+
+  registerSites(sites: Site[]): void {
+    sites.forEach(site => {
+      if (site.timezone) {
+        this.registerSiteTimezone(site.siteId, site.timezone);
+      }
+    });
+  }
+
+  registerSiteTimezone(siteId: string, timeZone: string): void {
+    if (!isValidTimeZone(timeZone)) {
+      console.warn('⚠️ TimezoneService: Ignoring unknown timezone for site:', { siteId, timeZone });
+      return;
+    }
+    this.siteZones.set(siteId, timeZone);
+  }
+
+  viewerTimeZone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  }
+
+  getSiteTimeZone(siteId: string | null): string | undefined {
+    return siteId ? this.siteZones.get(siteId) : undefined;
+  }
+
+  /**
+   * Timezone of a site's date math (day windows, "today", operating hours)
+   * Falls back to the viewer's timezone until the site's zone is known
+   */
+  siteZone(siteId: string | null): string {
+    return this.getSiteTimeZone(siteId) || this.viewerTimeZone();
+  }
+
+  /**
+   * Timezone times and labels of a site are shown in, honouring the display mode
+   */
+  zoneFor(siteId: string | null): string {
+    return this.mode === 'viewer' ? this.viewerTimeZone() : this.siteZone(siteId);
+  }
+
+  // Site calendar day of an instant - for date math, not display
+  calendarDate(siteId: string | null, utcMs: number): CalendarDate {
+    const { year, month, day } = zonedParts(utcMs, this.siteZone(siteId));
+    return { year, month, day };
+  }
+
+  /**
+   * Calendar day an instant is shown under, honouring the display mode
+   */
+  displayDate(siteId: string | null, utcMs: number): CalendarDate {
+    const { year, month, day } = zonedParts(utcMs, this.zoneFor(siteId));
+    return { year, month, day };
+  }
+
+  today(siteId: string | null): CalendarDate {
+    return this.calendarDate(siteId, Date.now());
+  }
+
+  isToday(siteId: string | null, date: CalendarDate): boolean {
+    const today = this.today(siteId);
+    return today.year === date.year && today.month === date.month && today.day === date.day;
+  }
+
+  toUtc(siteId: string | null, date: CalendarDate, minutesOfDay: number): number {
+    return zonedTimeToUtc(date, minutesOfDay, this.siteZone(siteId));
+  }
+
+  /**
+   * "HH:mm" (24h) or "hh:mm AM" (12h) wall-clock label of a UTC instant
+   * Accepts seconds or milliseconds (backend buckets have used both)
+   */
+  formatTime(siteId: string | null, timestamp: number, hour12 = false): string {
+    const utcMs = timestamp < 10000000000 ? timestamp * 1000 : timestamp;
+    const { hour, minute } = zonedParts(utcMs, this.zoneFor(siteId));
+    const mm = minute.toString().padStart(2, '0');
+    if (!hour12) {
+      return `${hour.toString().padStart(2, '0')}:${mm}`;
+    }
+    const suffix = hour < 12 ? 'AM' : 'PM';
+    const h12 = hour % 12 === 0 ? 12 : hour % 12;
+    return `${h12.toString().padStart(2, '0')}:${mm} ${suffix}`;
+  }
+
+  /**
+   * Short label for the active zone, e.g. "Asia/Singapore" or "Local time"
+   */
+  zoneLabel(siteId: string | null): string {
+    return this.mode === 'viewer' ? 'Local time' : (this.getSiteTimeZone(siteId) || 'Local time');
+  }
+}
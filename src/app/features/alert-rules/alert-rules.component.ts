@@ -0,0 +1,198 @@
+import { Component, OnInit, OnDestroy, ChangeDetectionStrategy, ChangeDetectorRef } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { MatIconModule } from '@angular/material/icon';
+import { Subscription } from 'rxjs';
+import { AlertRuleService } from '../../core/services/alert-rule.service';
+import { ApiService } from '../../core/services/api.service';
+import { PermissionService } from '../../core/services/permission.service';
+import { AlertRule, AlertRuleMetric } from '../../core/models/alert-rule.models';
+import { AlertSeverity } from '../../core/models/socket.models';
+import { Site } from '../../core/models/api.models';
+import { RULE_MAX_BASELINE_DAYS } from '../../core/config/alert-rules.config';
+
+// Rule with its one-line description pre-computed for the template
+interface RuleRow extends AlertRule {
+  _summary: string;
+  _siteName: string;
+}
+
+const METRIC_LABELS: Record<AlertRuleMetric, string> = {
+  occupancyPercent: 'Live occupancy (% of capacity)',
+  footfallVsBaseline: 'Footfall this hour vs usual (% change)',
+  visitorDwell: 'Visitor dwell (minutes)'
+};
+
+/**
+ * Alerts > Rules: list and edit client-side alert rules (AlertRuleService)
+ * Requires the alertRules.manage permission (route guard)
+ */
+@Component({
+  standalone: true,
+  selector: 'app-alert-rules',
+  imports: [CommonModule, ReactiveFormsModule, RouterLink, MatIconModule],
+  templateUrl: './alert-rules.component.html',
+  styleUrls: ['./alert-rules.component.scss'],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class AlertRulesComponent implements OnInit, OnDestroy {
+  readonly metrics = Object.entries(METRIC_LABELS).map(([value, label]) => ({ value: value as AlertRuleMetric, label }));
+  readonly severities: AlertSeverity[] = ['info', 'warning', 'critical'];
+  readonly maxBaselineDays = RULE_MAX_BASELINE_DAYS;
+
+  rules: RuleRow[] = [];
+  sites: Site[] = [];
+  editingId: string | null = null; // Rule in the editor ('' = new rule)
+  private subscriptions: Subscription[] = [];
+
+  form = this.fb.nonNullable.group({
+    name: ['', Validators.required],
+    enabled: [true],
+    siteId: [''], // '' = whichever site is selected
+    metric: ['occupancyPercent' as AlertRuleMetric],
+    comparator: ['above' as 'above' | 'below'],
+    threshold: [80, Validators.required],
+    capacity: [0],
+    baselineDays: [7, [Validators.min(1), Validators.max(RULE_MAX_BASELINE_DAYS)]],
+    forMinutes: [0, Validators.min(0)],
+    cooldownMinutes: [30, Validators.min(0)],
+    hysteresis: [0, Validators.min(0)],
+    severity: ['warning' as AlertSeverity]
+  });
+
+  constructor(
+    private fb: FormBuilder,
+    private alertRules: AlertRuleService,
+    private api: ApiService,
+    private permissions: PermissionService,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnInit(): void {
+    this.subscriptions.push(
+      this.api.getSites().subscribe(sites => {
+        this.sites = this.permissions.filterSites(sites);
+        this.rules = this.rules.map(rule => this.toRow(rule));
+        this.cdr.markForCheck();
+      }),
+      this.alertRules.rules$.subscribe(rules => {
+        this.rules = rules.map(rule => this.toRow(rule));
+        this.cdr.markForCheck();
+      })
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.forEach(sub => sub.unsubscribe());
+  }
+
+  get metric(): AlertRuleMetric {
+    return this.form.controls.metric.value;
+  }
+
+  newRule(): void {
+    this.editingId = '';
+    this.form.reset();
+    this.cdr.markForCheck();
+  }
+
+  edit(rule: AlertRule): void {
+    this.editingId = rule.id;
+    this.form.setValue({
+      name: rule.name,
+      enabled: rule.enabled,
+      siteId: rule.siteId || '',
+      metric: rule.metric,
+      comparator: rule.comparator,
+      threshold: rule.threshold,
+      capacity: rule.capacity || 0,
+      baselineDays: rule.baselineDays,
+      forMinutes: rule.forMinutes,
+      cooldownMinutes: rule.cooldownMinutes,
+      hysteresis: rule.hysteresis,
+      severity: rule.severity
+    });
+    this.cdr.markForCheck();
+  }
+
+  cancel(): void {
+    this.editingId = null;
+    this.cdr.markForCheck();
+  }
+
+  save(): void {
+    if (this.form.invalid || this.editingId === null) {
+      this.form.markAllAsTouched();
+      return;
+    }
+    const value = this.form.getRawValue();
+    if (value.metric === 'occupancyPercent' && !(value.capacity > 0)) {
+      this.form.controls.capacity.setErrors({ required: true });
+      this.form.controls.capacity.markAsTouched();
+      return;
+    }
+    this.alertRules.save({
+      ...value,
+      id: this.editingId || undefined,
+      siteId: value.siteId || null,
+      capacity: value.capacity || null
+    });
+    this.editingId = null;
+    this.cdr.markForCheck();
+  }
+
+  toggle(rule: AlertRule): void {
+    this.alertRules.setEnabled(rule.id, !rule.enabled);
+  }
+
+  remove(rule: AlertRule): void {
+    if (confirm(`Delete the rule "${rule.name}"?`)) {
+      if (this.editingId === rule.id) {
+        this.editingId = null;
+      }
+      this.alertRules.remove(rule.id);
+    }
+  }
+
+  trackByRuleId(index: number, rule: RuleRow): string {
+    return rule.id;
+  }
+
+  private toRow(rule: AlertRule): RuleRow {
+    return {
+      ...rule,
+      _summary: this.describe(rule),
+      _siteName: rule.siteId ? (this.sites.find(site => site.siteId === rule.siteId)?.name || rule.siteId) : 'Selected site'
+    };
+  }
+
+  // e.g. "Occupancy above 80% of 500 for 5 min · cooldown 30 min"
+  private describe(rule: AlertRule): string {
+    const comparison = rule.comparator === 'above' ? 'above' : 'below';
+    let text: string;
+    switch (rule.metric) {
+      case 'occupancyPercent':
+        text = `Occupancy ${comparison} ${rule.threshold}% of ${rule.capacity ?? '?'}`;
+        break;
+      case 'footfallVsBaseline':
+        text = `Footfall this hour ${comparison} ${rule.threshold > 0 ? '+' : ''}${rule.threshold}% vs ${rule.baselineDays}-day usual`;
+        break;
+      case 'visitorDwell':
+        text = `Visitor inside over ${rule.threshold} min`;
+        break;
+    }
+    if (rule.metric !== 'visitorDwell') {
+      if (rule.forMinutes > 0) {
+        text += ` for ${rule.forMinutes} min`;
+      }
+      if (rule.cooldownMinutes > 0) {
+        text += ` · cooldown ${rule.cooldownMinutes} min`;
+      }
+      if (rule.hysteresis > 0) {
+        text += ` · hysteresis ${rule.hysteresis}`;
+      }
+    }
+    return text;
+  }
+}
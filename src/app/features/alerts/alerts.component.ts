@@ -0,0 +1,332 @@
+import { Component, OnInit, OnDestroy, ChangeDetectionStrategy, ChangeDetectorRef } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { MatIconModule } from '@angular/material/icon';
+import { NotificationService, AlertRecord, impersonalMessage } from '../../core/services/notification.service';
+import { SiteService } from '../../core/services/site.service';
+import { AuthService } from '../../core/services/auth.service';
+import { PermissionService } from '../../core/services/permission.service';
+import { TimezoneService } from '../../core/services/timezone.service';
+import { HasPermissionDirective } from '../../shared/directives/has-permission.directive';
+import { Subscription, skip } from 'rxjs';
+
+type TimeRange = 'hour' | 'day' | 'week' | 'all' | 'custom';
+
+interface AlertFilters {
+  severity: string;     // '' = any
+  actionType: string;   // 'entry' | 'exit' | 'rule' | ''
+  zone: string;
+  siteId: string;       // '' = every site the user may see
+  range: TimeRange;
+  from: string;         // datetime-local values, used when range is 'custom'
+  to: string;
+  search: string;       // Person name, case-insensitive
+}
+
+// Alert with display values pre-computed for the template
+interface AlertRow extends AlertRecord {
+  _time: number;
+  _dateTime: string;
+  _personName: string;
+  _message: string;
+  _severity: string;
+  _action: string;
+  _acknowledgedAt: string;
+}
+
+const RANGE_MS: Record<Exclude<TimeRange, 'all' | 'custom'>, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Alert history (NotificationService, kept in IndexedDB) with filters, person
+ * search, paging and a detail panel showing the raw socket payload
+ */
+@Component({
+  standalone: true,
+  selector: 'app-alerts',
+  imports: [
+    CommonModule,
+    FormsModule,
+    RouterLink,
+    MatIconModule,
+    HasPermissionDirective
+  ],
+  templateUrl: './alerts.component.html',
+  styleUrls: ['./alerts.component.scss'],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class AlertsComponent implements OnInit, OnDestroy {
+  filters: AlertFilters = { severity: '', actionType: '', zone: '', siteId: '', range: 'all', from: '', to: '', search: '' };
+  readonly severities = ['critical', 'warning', 'info'];
+
+  // Filter options, taken from the history itself
+  siteOptions: { siteId: string; name: string }[] = [];
+  zoneOptions: string[] = [];
+
+  rows: AlertRow[] = []; // Current page
+  personal = false; // Person names, search and raw payloads - entries.view only
+  selected: AlertRow | null = null;
+  selectedRaw = '';
+
+  currentPage = 1;
+  pageSize = 50;
+  totalRecords = 0;
+  totalPages = 0;
+  pageNumbers: (number | string)[] = [];
+  paginationRangeStart = 0;
+  paginationRangeEnd = 0;
+
+  private history: AlertRow[] = []; // Every alert the user may see, newest first
+  private filtered: AlertRow[] = [];
+  private subscriptions: Subscription[] = [];
+
+  constructor(
+    private notificationService: NotificationService,
+    private siteService: SiteService,
+    private auth: AuthService,
+    private permissions: PermissionService,
+    private timezone: TimezoneService,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnInit(): void {
+    // Bell in the header follows the selected site, as on the other pages
+    const currentSiteId = this.auth.getSiteId();
+    if (currentSiteId) {
+      this.notificationService.setCurrentSiteId(currentSiteId);
+    }
+    this.filters.siteId = currentSiteId || '';
+    this.loadHistory();
+
+    // New alerts, read / acknowledged changes (also from other tabs)
+    this.subscriptions.push(this.notificationService.alerts$.subscribe(() => this.loadHistory()));
+
+    // Switching site switches the site filter along, unless the user picked "All sites"
+    this.subscriptions.push(this.siteService.siteChange$.subscribe((siteId: string) => {
+      this.notificationService.setCurrentSiteId(siteId);
+      if (this.filters.siteId) {
+        this.filters.siteId = siteId;
+        this.onFiltersChange();
+      }
+    }));
+
+    // Re-format times when the user switches between site time and local time
+    this.subscriptions.push(this.timezone.mode$.pipe(skip(1)).subscribe(() => this.loadHistory()));
+
+    // A refreshed token may carry another role
+    this.subscriptions.push(this.permissions.changes$.subscribe(() => this.loadHistory()));
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.forEach(sub => sub.unsubscribe());
+    this.subscriptions = [];
+  }
+
+  onFiltersChange(): void {
+    this.currentPage = 1;
+    this.applyFilters();
+  }
+
+  resetFilters(): void {
+    this.filters = { severity: '', actionType: '', zone: '', siteId: this.auth.getSiteId() || '', range: 'all', from: '', to: '', search: '' };
+    this.onFiltersChange();
+  }
+
+  select(row: AlertRow): void {
+    if (this.selected?.id === row.id) {
+      this.closeDetail();
+      return;
+    }
+    this.selected = row;
+    this.selectedRaw = this.personal ? JSON.stringify(row.raw ?? null, null, 2) : '';
+    // Opening an alert counts as reading it
+    if (!row.read) {
+      this.notificationService.markRead(row.id);
+    }
+    this.cdr.markForCheck();
+  }
+
+  closeDetail(): void {
+    this.selected = null;
+    this.selectedRaw = '';
+    this.cdr.markForCheck();
+  }
+
+  acknowledge(row: AlertRow): void {
+    this.notificationService.acknowledge(row.id);
+  }
+
+  markAllRead(): void {
+    if (this.filters.siteId) {
+      this.notificationService.markAllRead(this.filters.siteId);
+    } else {
+      this.siteOptions.forEach(site => this.notificationService.markAllRead(site.siteId));
+    }
+  }
+
+  get unreadCount(): number {
+    return this.filtered.filter(row => !row.read).length;
+  }
+
+  goToPage(page: number | string): void {
+    if (typeof page !== 'number' || page < 1 || page > this.totalPages || page === this.currentPage) return;
+    this.currentPage = page;
+    this.updatePage();
+  }
+
+  previousPage(): void {
+    this.goToPage(this.currentPage - 1);
+  }
+
+  nextPage(): void {
+    this.goToPage(this.currentPage + 1);
+  }
+
+  trackByAlertId(index: number, row: AlertRow): string {
+    return row.id;
+  }
+
+  trackByPageNumber(index: number, page: number | string): number | string {
+    return page;
+  }
+
+  private loadHistory(): void {
+    this.personal = this.permissions.has('entries.view');
+    if (!this.personal) {
+      this.filters.search = '';
+    }
+    this.history = this.notificationService.getHistory()
+      .filter(alert => this.permissions.canAccessSite(alert.siteId))
+      .map(alert => this.preprocessAlert(alert));
+
+    // Filter options from what is actually in history
+    const sites = new Map<string, string>();
+    const zones = new Set<string>();
+    this.history.forEach(row => {
+      if (row.siteId && !sites.has(row.siteId)) {
+        sites.set(row.siteId, row.site || row.siteId);
+      }
+      if (row.zone) {
+        zones.add(row.zone);
+      }
+    });
+    this.siteOptions = [...sites].map(([siteId, name]) => ({ siteId, name })).sort((a, b) => a.name.localeCompare(b.name));
+    this.zoneOptions = [...zones].sort((a, b) => a.localeCompare(b));
+
+    // Keep the detail panel on the same alert, with its new read / acknowledged state
+    if (this.selected) {
+      this.selected = this.history.find(row => row.id === this.selected?.id) || null;
+      this.selectedRaw = this.selected && this.personal ? JSON.stringify(this.selected.raw ?? null, null, 2) : '';
+    }
+    this.applyFilters();
+  }
+
+  private applyFilters(): void {
+    const { severity, actionType, zone, siteId } = this.filters;
+    const search = this.filters.search.trim().toLowerCase();
+    const [from, to] = this.timeWindow();
+
+    this.filtered = this.history.filter(row =>
+      (!severity || row._severity === severity) &&
+      (!actionType || row.actionType === actionType) &&
+      (!zone || row.zone === zone) &&
+      (!siteId || row.siteId === siteId) &&
+      (from === null || row._time >= from) &&
+      (to === null || row._time <= to) &&
+      (!search || row._personName.toLowerCase().includes(search))
+    );
+    this.totalRecords = this.filtered.length;
+    this.totalPages = Math.ceil(this.totalRecords / this.pageSize);
+    // New alerts may shrink or grow the list - stay on a page that exists
+    this.currentPage = Math.min(Math.max(this.currentPage, 1), Math.max(this.totalPages, 1));
+    this.updatePage();
+  }
+
+  private updatePage(): void {
+    const start = (this.currentPage - 1) * this.pageSize;
+    this.rows = this.filtered.slice(start, start + this.pageSize);
+    this.paginationRangeStart = this.totalRecords === 0 ? 0 : start + 1;
+    this.paginationRangeEnd = Math.min(start + this.pageSize, this.totalRecords);
+    this.updatePageNumbers();
+    this.cdr.markForCheck();
+  }
+
+  // Same layout as the entries page: "< 1 2 3 ... 9 >"
+  private updatePageNumbers(): void {
+    const pages: (number | string)[] = [];
+    if (this.totalPages <= 7) {
+      for (let i = 1; i <= this.totalPages; i++) {
+        pages.push(i);
+      }
+    } else if (this.currentPage <= 3) {
+      pages.push(1, 2, 3, '...', this.totalPages);
+    } else if (this.currentPage >= this.totalPages - 2) {
+      pages.push(1, '...', this.totalPages - 2, this.totalPages - 1, this.totalPages);
+    } else {
+      pages.push(1, '...', this.currentPage - 1, this.currentPage, this.currentPage + 1, '...', this.totalPages);
+    }
+    this.pageNumbers = pages;
+  }
+
+  // [from, to] in epoch ms; null = open-ended
+  private timeWindow(): [number | null, number | null] {
+    const { range } = this.filters;
+    if (range === 'all') {
+      return [null, null];
+    }
+    if (range === 'custom') {
+      // datetime-local values are in the viewer's timezone
+      const from = this.filters.from ? new Date(this.filters.from).getTime() : NaN;
+      const to = this.filters.to ? new Date(this.filters.to).getTime() : NaN;
+      return [isNaN(from) ? null : from, isNaN(to) ? null : to];
+    }
+    return [Date.now() - RANGE_MS[range], null];
+  }
+
+  private preprocessAlert(alert: AlertRecord): AlertRow {
+    const time = this.alertTime(alert);
+    return {
+      ...alert,
+      _time: time,
+      _dateTime: this.formatDateTime(alert.siteId || null, time),
+      _personName: this.personal ? this.personName(alert) : '',
+      _message: this.personal ? alert.message : impersonalMessage(alert),
+      _severity: (alert.severity || 'info').toLowerCase(),
+      _action: alert.actionType === 'rule' ? 'Rule' : alert.actionType === 'entry' ? 'Entry' : 'Exit',
+      _acknowledgedAt: alert.acknowledgedAt ? this.formatDateTime(alert.siteId || null, alert.acknowledgedAt) : ''
+    };
+  }
+
+  // Event time as epoch ms - backend timestamps have been seconds, ms and ISO strings
+  private alertTime(alert: AlertRecord): number {
+    const value = typeof alert.timestamp === 'number' ? alert.timestamp : Date.parse(alert.timestamp);
+    if (!Number.isFinite(value)) {
+      return alert.receivedAt;
+    }
+    return value < 10000000000 ? value * 1000 : value;
+  }
+
+  // "Mar 03, 14:05" in the alert's site timezone (or the viewer's, in local mode)
+  private formatDateTime(siteId: string | null, utcMs: number): string {
+    const { month, day } = this.timezone.displayDate(siteId, utcMs);
+    return `${MONTHS[month]} ${day.toString().padStart(2, '0')}, ${this.timezone.formatTime(siteId, utcMs)}`;
+  }
+
+  private personName(alert: AlertRecord): string {
+    if (alert.raw?.personName) {
+      return String(alert.raw.personName);
+    }
+    if (alert.raw?.name) {
+      return String(alert.raw.name);
+    }
+    // Message format: "Name entered Zone" / "Name exited Zone"
+    const match = (alert.message || '').match(/^(.+?)\s+(entered|exited)/i);
+    return match ? match[1].trim() : '';
+  }
+}
@@ -1,9 +1,11 @@
-import { Component, ViewChild, ElementRef } from '@angular/core';
+import { Component, ViewChild, ElementRef, OnInit, OnDestroy } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormBuilder, ReactiveFormsModule, Validators } from '@angular/forms';
-import { Router } from '@angular/router';
+import { Router, ActivatedRoute } from '@angular/router';
 import { MatIconModule } from '@angular/material/icon';
+import { Subscription } from 'rxjs';
 import { AuthService } from '../../../core/services/auth.service';
+import { CrossTabSyncService } from '../../../core/services/cross-tab-sync.service';
 
 @Component({
   standalone: true,
@@ -12,12 +14,13 @@ import { AuthService } from '../../../core/services/auth.service';
   templateUrl: './login.component.html',
   styleUrls: ['./login.component.scss']
 })
-export class LoginComponent {
+export class LoginComponent implements OnInit, OnDestroy {
   @ViewChild('passwordInput') passwordInput!: ElementRef<HTMLInputElement>;
   
   loading = false;
   error = '';
   showPassword = false;
+  private tabSubscription?: Subscription;
 
   form = this.fb.group({
     email: ['', [Validators.required, Validators.email]],
@@ -27,9 +30,24 @@ export class LoginComponent {
   constructor(
     private fb: FormBuilder,
     private auth: AuthService,
-    private router: Router
+    private router: Router,
+    private route: ActivatedRoute,
+    private tabSync: CrossTabSyncService
   ) {}
 
+  ngOnInit(): void {
+    // Signed in from another tab - the token is shared, so continue here too
+    this.tabSubscription = this.tabSync.messages$.subscribe(message => {
+      if (message.type === 'login' && this.auth.isLoggedIn()) {
+        this.router.navigateByUrl(this.returnUrl());
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.tabSubscription?.unsubscribe();
+  }
+
   onEmailEnter(event: Event): void {
     event.preventDefault();
     // Move focus to password field when Enter is pressed in email field
@@ -44,6 +62,15 @@ export class LoginComponent {
     this.showPassword = !this.showPassword;
   }
 
+  // Only in-app paths - never an absolute or protocol-relative URL from the query string
+  private returnUrl(): string {
+    const url = this.route.snapshot.queryParamMap.get('returnUrl');
+    if (!url || !url.startsWith('/') || url.startsWith('//') || url.startsWith('/login')) {
+      return '/';
+    }
+    return url;
+  }
+
   submit(): void {
     if (this.form.invalid) return;
 
@@ -55,9 +82,11 @@ export class LoginComponent {
     this.auth.login(email!, password!).subscribe({
       next: res => {
         if (res?.token) {
+          this.tabSync.publish({ type: 'login' });
           // Clear any stale caches before navigation
           // Note: ApiService and SocketService will be reinitialized on dashboard load
-          this.router.navigate(['/']);
+          // Back to where the user was when the session expired, if anywhere
+          this.router.navigateByUrl(this.returnUrl());
         } else {
           this.error = 'Login failed: No token received';
           this.loading = false;
@@ -6,6 +6,7 @@
 // - Demographics charts (pie chart and timeline)
 // - Real-time updates via Socket.IO
 // - Date selection for viewing historical data
+// - Preset periods (last 7 days, this week, last month, custom range)
 // ============================================
 
 import { Component, OnInit, OnDestroy, ChangeDetectionStrategy, ChangeDetectorRef } from '@angular/core';
@@ -20,12 +21,24 @@ import { MatProgressSpinnerModule } from '@angular/material/progress-spinner';
 import { ApiService } from '../../core/services/api.service';
 import { SocketService } from '../../core/services/socket.service';
 import { SiteService } from '../../core/services/site.service';
-import { NotificationService, Alert } from '../../core/services/notification.service';
+import { NotificationService } from '../../core/services/notification.service';
+import { AlertEvent } from '../../core/models/socket.models';
 import { AuthService } from '../../core/services/auth.service';
+import { OperatingHoursService, OperatingWindow } from '../../core/services/operating-hours.service';
+import { TimezoneService, CalendarDate, addDays, formatIsoDate, parseIsoDate } from '../../core/services/timezone.service';
+import { DateRangeService, DateRange, DateRangePreset, DATE_RANGE_PRESETS } from '../../core/services/date-range.service';
+import { DataFreshnessService } from '../../core/services/data-freshness.service';
+import { NetworkStatusService } from '../../core/services/network-status.service';
+import { ComparisonBaselineService, ComparisonBaseline, BaselineSample, COMPARISON_BASELINES } from '../../core/services/comparison-baseline.service';
+import { OccupancyResponse, DemographicsResponse, FootfallResponse, DwellResponse } from '../../core/models/api.models';
+import { ActivatedRoute, Router } from '@angular/router';
 import { NgxChartsModule } from '@swimlane/ngx-charts';
-import { Subscription, debounceTime, distinctUntilChanged, catchError, of, Subject, switchMap } from 'rxjs';
+import { Subscription, debounceTime, distinctUntilChanged, catchError, of, Subject, switchMap, skip, forkJoin, takeLast, map, tap } from 'rxjs';
 import { curveCardinal } from 'd3-shape';
 
+// Footfall refreshes move the baseline's same-time-of-day cut-off at most this often
+const BASELINE_REFRESH_MS = 5 * 60 * 1000;
+
 @Component({
   standalone: true,
   selector: 'app-dashboard',
@@ -54,23 +67,45 @@ export class DashboardComponent implements OnInit, OnDestroy {
   avgDwellTime = 0; // Average time people spend in the venue (in minutes)
   dwellRecords = 0; // Number of records used to calculate average dwell time
   
-  // Yesterday's values (for percentage comparison)
+  // Baseline values (for percentage comparison) - see comparisonBaseline
   previousFootfall = 0;
   previousDwellTime = 0;
   previousLiveOccupancy = 0;
   
-  // Percentage change calculations (for showing "X% more/less than yesterday")
+  // Comparison baseline (same weekday last week, same day last year, 4-week average, ...)
+  comparisonBaseline: ComparisonBaseline = 'sameWeekdayLastWeek';
+  comparisonBaselines = COMPARISON_BASELINES;
+  baselinePickerDate: Date | null = null; // Custom baseline as shown by its date picker (local midnight)
+  private customBaselineDate: CalendarDate | null = null;
+  
+  // Percentage change calculations (for showing "X% more/less than <baseline>")
   liveOccupancyChange: { value: number; isPositive: boolean } | null = null;
   footfallChange: { value: number; isPositive: boolean } | null = null;
   dwellTimeChange: { value: number; isPositive: boolean } | null = null;
   
   // Chart data arrays (used by ngx-charts library)
-  occupancyChartData: any[] = []; // Data for the occupancy timeline chart
+  occupancyChartData: any[] = []; // Data for the occupancy timeline chart (selected period + baseline overlay)
+  occupancyChartColors: { name: string; value: string }[] = []; // Fixed colors so the overlay doesn't shift the palette
+  baselineLegendLabel = ''; // Overlay series name, empty when no overlay is shown
+  private occupancySeries: { name: string; value: number }[] = [];
+  private baselineSeries: { name: string; value: number }[] = [];
   demographicsChartData: any[] = []; // Data for demographics pie chart
   demographicsAnalysisChartData: any[] = []; // Data for demographics timeline chart
   
   // Timezone information from backend (used for display)
   siteTimezone: string = '';
+  // Zone all dates and chart labels are shown in (site timezone or "Local time")
+  timeZoneLabel = '';
+  
+  // "Last updated" indicator - cached data is shown immediately and refreshed in the background
+  lastUpdatedText = ''; // e.g. "just now", "5 min ago"
+  refreshing = false; // Background refresh in flight
+  private dataUpdatedAt: number | null = null; // When the data on screen was fetched from the backend
+  private lastUpdatedInterval?: any; // Timer keeping lastUpdatedText current
+  
+  // Set when the backend returns a payload that violates the API contract
+  // Shown as a warning banner instead of silently rendering zeros
+  contractErrorMessage: string | null = null;
   
   // Demographics totals for display
   totalMaleCount = 0; // Total male visitors
@@ -78,7 +113,7 @@ export class DashboardComponent implements OnInit, OnDestroy {
   
   // Live marker properties (the red line showing current time on charts)
   liveMarkerPosition: number | null = null; // Position as percentage (0-100)
-  occupancyTimeRange: { fromUtc: number; toUtc: number } | null = null; // Time range of the chart
+  occupancyTimeRange: OperatingWindow | null = null; // Time range of the chart (site's operating window)
   private liveMarkerUpdateInterval?: any; // Timer for updating live marker position
   
   // Chart configuration options (for ngx-charts library)
@@ -120,21 +155,31 @@ export class DashboardComponent implements OnInit, OnDestroy {
   curve = curveCardinal.tension(0.5);
 
   // Selected date (for viewing historical data)
-  // Defaults to today at midnight (converted to UTC for consistent storage)
+  // Stored as UTC midnight whose UTC components are the calendar day in the site's timezone
+  // Defaults to today (browser date until ngOnInit resolves the site's "today")
   selectedDate: Date = (() => {
     const today = new Date();
-    // Use local date methods to match what the date picker shows
-    // Then convert to UTC for consistent storage and comparison
-    return new Date(Date.UTC(
-      today.getFullYear(),  // Use local year
-      today.getMonth(),     // Use local month
-      today.getDate(),      // Use local date
-      0, 0, 0, 0
-    ));
+    return new Date(Date.UTC(today.getFullYear(), today.getMonth(), today.getDate(), 0, 0, 0, 0));
   })();
+  // Same calendar day at local midnight - what the date picker displays
+  pickerDate: Date = new Date(new Date().setHours(0, 0, 0, 0));
+  // True once the user picks a date - until then "today" follows the site's timezone
+  private userPickedDate = false;
+  
+  // Selected period: 'day' uses selectedDate, the other presets aggregate several days
+  rangePreset: DateRangePreset = 'day';
+  rangePresets = DATE_RANGE_PRESETS;
+  customPickerStart: Date | null = null; // Custom range as shown by the range picker (local midnight)
+  customPickerEnd: Date | null = null;
+  private customRange: { start: CalendarDate; end: CalendarDate } | null = null;
+  private pendingRangeStart: Date | null = null;
+  // Period the displayed data belongs to (set by loadDashboardData)
+  private currentRange: DateRange | null = null;
   
   // Pre-computed display values (formatted for display in UI)
-  dateDisplayText = ''; // Formatted date string (e.g., "Today" or "Dec 18, 2025")
+  dateDisplayText = ''; // Formatted date string (e.g., "Today", "Dec 18, 2025" or "Last 7 days")
+  footfallTitle = "Today's Footfall"; // Footfall card title ("Footfall" for past days and ranges)
+  comparisonLabel = 'same weekday last week'; // Baseline wording shown on the comparison cards
   footfallDisplayValue = ''; // Formatted footfall number (e.g., "1,234")
   dwellTimeDisplayValue = ''; // Formatted dwell time (e.g., "23min 8sec")
   totalCrowdPercentage = 0; // Total crowd percentage for pie chart
@@ -145,6 +190,15 @@ export class DashboardComponent implements OnInit, OnDestroy {
   private socketSubscriptions: Subscription[] = []; // Real-time socket subscriptions
   private httpSubscriptions: Subscription[] = []; // HTTP API subscriptions
   private siteChangeSubscription?: Subscription; // Subscription for site changes
+  private contractErrorSubscription?: Subscription; // Subscription for API contract violations
+  private timeModeSubscription?: Subscription; // Subscription for site/local time display mode
+  private baselineComparisonSubscription?: Subscription; // Baseline footfall/dwell request
+  // Footfall/dwell of whole past baseline samples - `${siteId}|${fromUtc}|${toUtc}`
+  private baselineSampleCache = new Map<string, { footfall: FootfallResponse | null; dwell: DwellResponse | null }>();
+  private baselineLoadedAt = 0; // When the baseline comparison last arrived (epoch ms)
+  private baselineOccupancySubscription?: Subscription; // Baseline occupancy (live comparison + overlay) request
+  private freshnessSubscription?: Subscription; // Background refresh state from the HTTP cache
+  private reconnectSubscription?: Subscription; // Reload after connectivity returns
   private footfallRefreshPending = false; // Flag to prevent duplicate refresh requests
   
   // RxJS Subject for debouncing footfall refresh (prevents too many API calls)
@@ -164,6 +218,14 @@ export class DashboardComponent implements OnInit, OnDestroy {
     private siteService: SiteService, // Manages site selection changes
     private notificationService: NotificationService, // Handles notifications/alerts
     private auth: AuthService, // Handles authentication
+    private operatingHours: OperatingHoursService, // Resolves each site's opening window
+    private timezone: TimezoneService, // Site-timezone date math and labels
+    private dateRange: DateRangeService, // Resolves preset periods and chart bucketing
+    private baselines: ComparisonBaselineService, // Resolves comparison baseline periods
+    private freshness: DataFreshnessService, // Stale-while-revalidate state of cached responses
+    private network: NetworkStatusService, // Connectivity (offline = saved data on screen)
+    private route: ActivatedRoute, // Reads the bookmarked period (?date=, ?range=)
+    private router: Router, // Writes the selected period back to the URL
     private cdr: ChangeDetectorRef // Used to manually trigger UI updates
   ) {}
 
@@ -173,12 +235,42 @@ export class DashboardComponent implements OnInit, OnDestroy {
   // ============================================
   ngOnInit(): void {
     // Step 1: Initialize notification service with today's date and current site ID
+    // "Today" is the site's calendar day, which can differ from the browser's
+    // A bookmarked period (?date=, ?range=, ?from=&to=) takes precedence
+    this.restorePeriodFromUrl();
+    this.followSiteToday();
+    this.comparisonBaseline = this.baselines.getSavedBaseline();
     this.notificationService.setSelectedDate(this.selectedDate);
     const currentSiteId = this.auth.getSiteId();
     if (currentSiteId) {
       this.notificationService.setCurrentSiteId(currentSiteId);
     }
     
+    // Step 1b: Surface malformed backend responses to the user (instead of silent zeros)
+    this.contractErrorSubscription = this.api.contractErrors$.subscribe(err => {
+      this.contractErrorMessage = `Unexpected response from ${err.endpoint} (${err.path}). Some values may be missing.`;
+      this.cdr.markForCheck();
+    });
+    
+    // Step 1c: Rebuild times and chart labels when the user switches between site time and local time
+    // (skip the current value - the initial load happens below; the windows stay in site time)
+    this.timeModeSubscription = this.timezone.mode$.pipe(skip(1)).subscribe(() => {
+      this.updateDateDisplayText();
+      this.loadDashboardData();
+    });
+    
+    // Step 1d: Track background refreshes of cached data for the "last updated" indicator
+    this.freshnessSubscription = this.freshness.state$.subscribe(state => {
+      this.refreshing = state.revalidating > 0;
+      this.cdr.markForCheck();
+    });
+    this.lastUpdatedInterval = setInterval(() => this.updateLastUpdatedText(), 30000);
+    
+    // Step 1e: Replace saved (offline) data as soon as the connection is back
+    this.reconnectSubscription = this.network.reconnected$.subscribe(() => {
+      this.loadDashboardData();
+    });
+    
     // Step 2: Calculate chart sizes based on window size (responsive)
     this.updateChartViewDimensions();
     
@@ -199,6 +291,15 @@ export class DashboardComponent implements OnInit, OnDestroy {
       this.previousDwellTime = 0;
       this.previousLiveOccupancy = 0;
       
+      // Stale markers and "last updated" belong to the previous site's data
+      this.freshness.clear();
+      this.dataUpdatedAt = null;
+      this.lastUpdatedText = '';
+      
+      // New site may be in another timezone - its "today" may be a different day
+      this.siteTimezone = '';
+      this.followSiteToday();
+      
       // Update date display and reload dashboard data
       this.updateDateDisplayText();
       this.loadDashboardData();
@@ -236,8 +337,16 @@ export class DashboardComponent implements OnInit, OnDestroy {
     this.footfallRefreshSubscription = this.footfallRefreshTrigger$.pipe(
       debounceTime(3000), // Debounce for 3 seconds
       switchMap(() => {
+        // Only periods that include today change when people enter/exit
+        const range = this.resolveRange();
+        if (!this.timezone.isToday(this.auth.getSiteId(), range.end)) {
+          return of(null);
+        }
         // Cancel previous request if new one comes in
-        return this.api.getFootfall().pipe(
+        // Always an explicit window up to now - the memoized "today" request would replay the old count
+        // takeLast: skip the cached emission - this refresh exists to get the new count
+        return this.api.getFootfall(range.fromUtc, range.toUtc).pipe(
+          takeLast(1),
           catchError(err => {
             const errorInfo = {
               type: err.name || 'HTTP Error',
@@ -257,26 +366,7 @@ export class DashboardComponent implements OnInit, OnDestroy {
       next: (res) => {
         if (res) {
           // Backend provides: { siteId, fromUtc, toUtc, footfall }
-          this.todaysFootfall = res.footfall ?? 0;
-          this.footfallDisplayValue = this.todaysFootfall.toLocaleString();
-          this.updateDateDisplayText();
-          // Reload yesterday's comparison
-          const now = Date.now();
-          const dayDiff = 24 * 60 * 60 * 1000;
-          const yesterdayFromUtc = Date.UTC(new Date(now - dayDiff).getUTCFullYear(), new Date(now - dayDiff).getUTCMonth(), new Date(now - dayDiff).getUTCDate(), 8, 0, 0, 0);
-          const yesterdayToUtc = now - dayDiff;
-          if (yesterdayToUtc > yesterdayFromUtc) {
-            const footfallSub = this.api.getFootfall(yesterdayFromUtc, yesterdayToUtc).subscribe({
-              next: (yesterdayRes) => {
-                if (yesterdayRes) {
-                  this.previousFootfall = yesterdayRes.footfall ?? 0;
-                  this.calculateFootfallChange();
-                }
-              }
-            });
-            this.httpSubscriptions.push(footfallSub);
-          }
-          this.cdr.markForCheck();
+          this.showRefreshedFootfall(res.footfall);
         }
         this.footfallRefreshPending = false;
       },
@@ -286,6 +376,20 @@ export class DashboardComponent implements OnInit, OnDestroy {
     });
   }
 
+  // New footfall count for the current period (alert-triggered refresh or polling fallback)
+  private showRefreshedFootfall(footfall: number): void {
+    this.todaysFootfall = footfall;
+    this.footfallDisplayValue = this.todaysFootfall.toLocaleString();
+    this.updateDateDisplayText();
+    // Compare against the baseline already loaded; its samples clipped to the same time of
+    // day are moved up to now every BASELINE_REFRESH_MS (whole samples come from baselineSampleCache)
+    this.calculateFootfallChange();
+    if (Date.now() - this.baselineLoadedAt >= BASELINE_REFRESH_MS) {
+      this.loadBaselineComparison(this.resolveRange());
+    }
+    this.cdr.markForCheck();
+  }
+
   // ============================================
   // CLEANUP
   // Runs when component is destroyed
@@ -310,6 +414,27 @@ export class DashboardComponent implements OnInit, OnDestroy {
       this.siteChangeSubscription.unsubscribe();
     }
     
+    // Unsubscribe from contract error reporting
+    if (this.contractErrorSubscription) {
+      this.contractErrorSubscription.unsubscribe();
+    }
+    
+    // Stop tracking background refreshes
+    this.freshnessSubscription?.unsubscribe();
+    this.reconnectSubscription?.unsubscribe();
+    if (this.lastUpdatedInterval) {
+      clearInterval(this.lastUpdatedInterval);
+    }
+    
+    // Unsubscribe from baseline requests
+    this.baselineComparisonSubscription?.unsubscribe();
+    this.baselineOccupancySubscription?.unsubscribe();
+    
+    // Unsubscribe from time display mode changes
+    if (this.timeModeSubscription) {
+      this.timeModeSubscription.unsubscribe();
+    }
+    
     // Unsubscribe from footfall refresh mechanism
     if (this.footfallRefreshSubscription) {
       this.footfallRefreshSubscription.unsubscribe();
@@ -344,6 +469,13 @@ export class DashboardComponent implements OnInit, OnDestroy {
     });
     this.httpSubscriptions = [];
     
+    // A fresh load gets a fresh chance to pass contract validation
+    this.contractErrorMessage = null;
+    
+    // The overlay belongs to the previous period - drop it until the new baseline arrives
+    this.baselineSeries = [];
+    this.baselineLegendLabel = '';
+    
     // Step 2: Set loading flags (show spinners in UI)
     // Note: We don't clear chart data here - let it update when new data arrives
     // This prevents flickering/blank charts during reload
@@ -358,34 +490,26 @@ export class DashboardComponent implements OnInit, OnDestroy {
     // API expects: { siteId, fromUtc, toUtc } where fromUtc/toUtc are UTC milliseconds (numbers)
     // Backend handles timezone conversion based on siteId
     
-    // Extract the intended local date from selectedDate
-    // selectedDate is stored as UTC but represents a local date selection
-    // We need to interpret it as a local date, not extract UTC components
-    const selectedDate = new Date(this.selectedDate);
-    // Since selectedDate was created using local date values converted to UTC,
-    // we reconstruct the local date by reading the UTC components
-    // (which match the original local values used during initialization)
-    const selectedYear = selectedDate.getUTCFullYear();
-    const selectedMonth = selectedDate.getUTCMonth();
-    const selectedDay = selectedDate.getUTCDate();
-    
-    // Create 8:00 AM and 6:00 PM in the user's LOCAL timezone for the selected date
-    // Then convert to UTC milliseconds for the API
-    // This ensures "Dec 19" selected by user means Dec 19 in their timezone
-    const localFrom = new Date(selectedYear, selectedMonth, selectedDay, 8, 0, 0, 0);
-    const localTo = new Date(selectedYear, selectedMonth, selectedDay, 18, 0, 0, 0);
-    
-    // Check if selected date is today (using local date comparison)
-    const now = new Date();
-    const todayYear = now.getFullYear();
-    const todayMonth = now.getMonth();
-    const todayDay = now.getDate();
-    const isToday = selectedYear === todayYear && selectedMonth === todayMonth && selectedDay === todayDay;
-    
-    // Convert local times to UTC milliseconds for API
-    // getTime() returns UTC milliseconds regardless of timezone
-    let fromUtc = localFrom.getTime();  // 8:00 AM local time -> UTC milliseconds
-    let toUtc = isToday ? Math.min(Date.now(), localTo.getTime()) : localTo.getTime();  // 6:00 PM local time -> UTC milliseconds or current time
+    // The selected calendar days are interpreted in the site's timezone (or the viewer's, in local mode)
+    const siteId = this.auth.getSiteId();
+    this.timeZoneLabel = this.timezone.zoneLabel(siteId);
+    
+    // Resolve the selected period: opening of its first day to closing of its last day
+    // This ensures "Dec 19" selected by user means Dec 19's opening hours at the site
+    const range = this.resolveRange();
+    this.currentRange = range;
+    const lastDayWindow = this.operatingHours.getWindow(siteId, range.end);
+    
+    // The live marker spans the full operating day, not just the data received so far
+    // Multi-day periods have no single "now" position on the chart
+    this.occupancyTimeRange = range.dayCount === 1 ? lastDayWindow : null;
+    
+    // Check if the period ends today at the site
+    const isToday = this.timezone.isToday(siteId, range.end);
+    
+    // Window is already in UTC milliseconds and clipped to current time when the period includes today
+    let fromUtc = range.fromUtc;
+    let toUtc = range.toUtc;
     
     // Date range calculation - logging removed to reduce console noise
     
@@ -393,7 +517,7 @@ export class DashboardComponent implements OnInit, OnDestroy {
     if (fromUtc >= toUtc) {
       // If invalid, adjust to valid range
       if (isToday && Date.now() < fromUtc) {
-        // Before 8 AM UTC today - use last hour
+        // Before opening time today - use last hour
         toUtc = Date.now();
         fromUtc = Math.max(toUtc - (60 * 60 * 1000), fromUtc - (24 * 60 * 60 * 1000));
       } else {
@@ -403,22 +527,31 @@ export class DashboardComponent implements OnInit, OnDestroy {
     }
     
     
+    // Stale-while-revalidate: each batch emits cached data first (if any), then fresh data
+    // Later emissions update cards and charts in place without restarting the dependent requests
+    let phase1Emissions = 0;
+    let phase2Emissions = 0;
+    
     // PHASE 1: High Priority - Summary Cards (Footfall & Dwell)
     // OPTIMIZED: Use batch API method for parallel loading with shared payload
     // These APIs power summary cards and must load first
     const phase1Sub = this.api.getSummaryCardsBatch(fromUtc, toUtc).subscribe({
       next: (phase1Results) => {
-        // Reset comparison data when loading new site data
-        this.previousFootfall = 0;
-        this.previousDwellTime = 0;
-        this.footfallChange = null;
-        this.dwellTimeChange = null;
+        const firstPhase1 = phase1Emissions++ === 0;
+        this.markDataUpdated();
+        if (firstPhase1) {
+          // Reset comparison data when loading new site data
+          this.previousFootfall = 0;
+          this.previousDwellTime = 0;
+          this.footfallChange = null;
+          this.dwellTimeChange = null;
+        }
         
         // Process footfall - Use backend data directly
         // Backend provides: { siteId, fromUtc, toUtc, footfall }
         if (phase1Results.footfall) {
           // Footfall data processed - API provides: { siteId, fromUtc, toUtc, footfall }
-          this.todaysFootfall = phase1Results.footfall.footfall ?? 0;
+          this.todaysFootfall = phase1Results.footfall.footfall;
           this.footfallDisplayValue = this.todaysFootfall.toLocaleString();
           this.updateDateDisplayText();
         } else {
@@ -430,8 +563,8 @@ export class DashboardComponent implements OnInit, OnDestroy {
         // Process dwell - Use backend data directly (API: { siteId, fromUtc, toUtc, avgDwellMinutes, dwellRecords })
         if (phase1Results.dwell) {
           // API always provides 'avgDwellMinutes' and 'dwellRecords' fields
-          this.avgDwellTime = phase1Results.dwell.avgDwellMinutes ?? 0;
-          this.dwellRecords = phase1Results.dwell.dwellRecords ?? 0;
+          this.avgDwellTime = phase1Results.dwell.avgDwellMinutes;
+          this.dwellRecords = phase1Results.dwell.dwellRecords;
           
           // Format display value: "23min 8sec" format
           const minutes = Math.floor(this.avgDwellTime);
@@ -444,39 +577,55 @@ export class DashboardComponent implements OnInit, OnDestroy {
         }
         this.loadingDwell = false;
         
-        // Load yesterday's data for comparison AFTER today's data is set
+        // Load baseline data for comparison AFTER current data is set
         // This ensures calculations use the correct current values
-        this.loadYesterdayComparison(fromUtc, toUtc);
+        // (a refreshed response only needs the percentages recalculated)
+        if (firstPhase1) {
+          this.loadBaselineComparison(range);
+        } else {
+          this.calculateFootfallChange();
+          this.calculateDwellTimeChange();
+        }
         
         // Phase 1 complete - trigger change detection for summary cards
         this.checkAllLoaded();
         this.cdr.markForCheck();
         
+        // Phase 2 is already running for the cached emission
+        if (!firstPhase1) {
+          return;
+        }
+        
         // PHASE 2: Low Priority - Charts (Occupancy & Demographics)
         // OPTIMIZED: Use batch API method for parallel loading with shared payload
         // These are heavy APIs and load in background after Phase 1 completes
         // Must NOT block summary cards
         const phase2Sub = this.api.getChartsBatch(fromUtc, toUtc).subscribe({
           next: (batchResults) => {
+            const firstPhase2 = phase2Emissions++ === 0;
+            this.markDataUpdated();
             // Process occupancy from batch results
             if (batchResults.occupancy) {
-              this.processOccupancyData(batchResults.occupancy);
-              // Extract timezone from API response
+              // Extract timezone from API response (before labels are built)
               if (!this.siteTimezone && batchResults.occupancy.timezone) {
                 this.siteTimezone = batchResults.occupancy.timezone;
+                this.adoptSiteTimezone(batchResults.occupancy.timezone);
+              }
+              this.processOccupancyData(batchResults.occupancy);
+              if (firstPhase2) {
+                // Reset comparison data when loading new occupancy data
+                this.previousLiveOccupancy = 0;
+                this.liveOccupancyChange = null;
               }
-              // Reset comparison data when loading new occupancy data
-              this.previousLiveOccupancy = 0;
-              this.liveOccupancyChange = null;
               
               // Backend doesn't provide liveOccupancy - use latest bucket for today
               // This serves as fallback when Socket.IO is not connected
-              if (this.isSelectedDateToday() && batchResults.occupancy.buckets?.length > 0) {
+              if (this.isSelectedDateToday() && batchResults.occupancy.buckets.length > 0) {
                 const latestBucket = batchResults.occupancy.buckets[batchResults.occupancy.buckets.length - 1];
-                const occupancyValue = Number(latestBucket.avg) || 0;
+                const occupancyValue = latestBucket.avg;
                 // Always update from API if Socket.IO is not connected (Socket.IO takes precedence when connected)
                 // Check socket health - if not connected, use API value
-                const socketHealthy = this.socket.isConnectionHealthy();
+                const socketHealthy = this.isSocketLive();
                 if (!socketHealthy || this.liveOccupancy === 0) {
                   this.liveOccupancy = occupancyValue;
                   console.log('📊 Live Occupancy set from API:', {
@@ -490,27 +639,32 @@ export class DashboardComponent implements OnInit, OnDestroy {
               } else {
                 console.warn('⚠️ Live Occupancy: No buckets or date not today', {
                   isToday: this.isSelectedDateToday(),
-                  bucketsLength: batchResults.occupancy.buckets?.length || 0
+                  bucketsLength: batchResults.occupancy.buckets.length
                 });
               }
               
-              // Load yesterday's occupancy for comparison AFTER current value is set
-              this.loadYesterdayOccupancy(fromUtc, toUtc);
+              // Load baseline occupancy (live comparison + chart overlay) AFTER current value is set
+              if (firstPhase2) {
+                this.loadBaselineOccupancy(range);
+              } else {
+                this.calculateLiveOccupancyChange();
+              }
             } else {
               // Clear data on error/null to show "no data available"
-              this.occupancyChartData = [];
+              this.clearOccupancyChart();
               this.liveOccupancy = 0;
             }
             this.loadingOccupancy = false;
             
             // Process demographics from batch results
             if (batchResults.demographics) {
-              this.processDemographicsData(batchResults.demographics);
-              this.processDemographicsAnalysisData(batchResults.demographics);
-              // Extract timezone from API response
+              // Extract timezone from API response (before labels are built)
               if (!this.siteTimezone && batchResults.demographics.timezone) {
                 this.siteTimezone = batchResults.demographics.timezone;
+                this.adoptSiteTimezone(batchResults.demographics.timezone);
               }
+              this.processDemographicsData(batchResults.demographics);
+              this.processDemographicsAnalysisData(batchResults.demographics);
             } else {
               // Clear data on error/null to show "no data available"
               this.demographicsChartData = [];
@@ -536,7 +690,7 @@ export class DashboardComponent implements OnInit, OnDestroy {
             };
             console.error('❌ Dashboard: Error loading Phase 2 data (charts):', errorInfo);
             // Reset chart data on error to show "no data available"
-            this.occupancyChartData = [];
+            this.clearOccupancyChart();
             this.demographicsChartData = [];
             this.demographicsAnalysisChartData = [];
             this.updateDemographicsPercentages(); // Reset percentages
@@ -573,16 +727,16 @@ export class DashboardComponent implements OnInit, OnDestroy {
             if (batchResults.occupancy) {
               this.processOccupancyData(batchResults.occupancy);
               // Set live occupancy from latest bucket if Socket.IO not connected
-              if (this.isSelectedDateToday() && batchResults.occupancy.buckets?.length > 0) {
+              if (this.isSelectedDateToday() && batchResults.occupancy.buckets.length > 0) {
                 const latestBucket = batchResults.occupancy.buckets[batchResults.occupancy.buckets.length - 1];
-                const occupancyValue = Number(latestBucket.avg) || 0;
-                if (this.liveOccupancy === 0 || !this.socket.isConnectionHealthy()) {
+                const occupancyValue = latestBucket.avg;
+                if (this.liveOccupancy === 0 || !this.isSocketLive()) {
                   this.liveOccupancy = occupancyValue;
                 }
               }
             } else {
               // Clear data on error/null to show "no data available"
-              this.occupancyChartData = [];
+              this.clearOccupancyChart();
               if (!this.isSelectedDateToday()) {
                 this.liveOccupancy = 0;
               }
@@ -604,7 +758,7 @@ export class DashboardComponent implements OnInit, OnDestroy {
           },
           error: () => {
             // Reset chart data on error to show "no data available"
-            this.occupancyChartData = [];
+            this.clearOccupancyChart();
             this.demographicsChartData = [];
             this.demographicsAnalysisChartData = [];
             this.updateDemographicsPercentages(); // Reset percentages
@@ -621,6 +775,31 @@ export class DashboardComponent implements OnInit, OnDestroy {
     this.httpSubscriptions.push(phase1Sub);
   }
   
+  /**
+   * Record when the data on screen was fetched
+   * A response served stale from cache carries its original fetch time
+   */
+  private markDataUpdated(): void {
+    this.dataUpdatedAt = this.freshness.state.staleSince ?? Date.now();
+    this.updateLastUpdatedText();
+  }
+
+  private updateLastUpdatedText(): void {
+    if (this.dataUpdatedAt === null) {
+      this.lastUpdatedText = '';
+      return;
+    }
+    const ageMinutes = Math.floor((Date.now() - this.dataUpdatedAt) / 60000);
+    if (ageMinutes < 1) {
+      this.lastUpdatedText = 'just now';
+    } else if (ageMinutes < 60) {
+      this.lastUpdatedText = `${ageMinutes} min ago`;
+    } else {
+      this.lastUpdatedText = `at ${this.timezone.formatTime(this.auth.getSiteId(), this.dataUpdatedAt)}`;
+    }
+    this.cdr.markForCheck();
+  }
+  
   private checkAllLoaded(): void {
     // Check if all requests have completed (successfully or with error)
     if (!this.loadingFootfall && !this.loadingDwell && !this.loadingOccupancy && !this.loadingDemographics) {
@@ -629,59 +808,32 @@ export class DashboardComponent implements OnInit, OnDestroy {
     }
   }
 
-  private processOccupancyData(data: any): void {
+  private processOccupancyData(data: OccupancyResponse): void {
     // Occupancy data processed - API provides: { siteId, fromUtc, toUtc, timezone, buckets: [{ utc, local, avg }] }
     
-    // Store time range for live marker calculation
-    if (data?.fromUtc && data?.toUtc) {
-      this.occupancyTimeRange = {
-        fromUtc: data.fromUtc,
-        toUtc: data.toUtc
-      };
-    } else {
-      this.occupancyTimeRange = null;
-    }
+    // Live marker range (occupancyTimeRange) is the operating window set in loadDashboardData
     
     // Backend provides buckets array with: { utc, local, avg }
-    // local format: "18/12/2025 12:00:00" -> extract "12:00"
-    const buckets = data?.buckets || [];
+    // Buckets are grouped per hour (one or two days) or per day (longer periods) in the active display zone
+    const buckets = data.buckets;
     
     if (buckets.length === 0) {
-      this.occupancyChartData = [];
+      this.clearOccupancyChart();
       this.liveMarkerPosition = null;
       this.cdr.markForCheck();
       return;
     }
     
     // Optimized: Direct extraction from known API structure
-    const series = buckets.map((item: any) => {
-      // Extract time from local field: "18/12/2025 12:00:00" -> "12:00"
-      let timeLabel = '';
-      if (item.local && typeof item.local === 'string') {
-        // Format: "DD/MM/YYYY HH:mm:ss" -> extract "HH:mm"
-        const timeMatch = item.local.match(/(\d{2}:\d{2}):\d{2}/);
-        timeLabel = timeMatch ? timeMatch[1] : item.local;
-      } else if (item.utc) {
-        // Fallback: format UTC timestamp
-        timeLabel = this.formatTime(item.utc);
-      }
-      
-      return {
-        name: timeLabel || String(item.utc || ''),
-        value: Number(item.avg) || 0
-      };
-    });
-    
-    this.occupancyChartData = [{
-      name: 'Occupancy',
-      series: series
-    }];
+    // Occupancy is a level, not a count - a group shows the average of its buckets
+    this.occupancySeries = this.averageOccupancy(buckets);
+    this.updateOccupancyChart();
     
     // Also set live occupancy from latest bucket if today and Socket.IO not connected
     if (this.isSelectedDateToday() && buckets.length > 0) {
       const latestBucket = buckets[buckets.length - 1];
-      const occupancyValue = Number(latestBucket.avg) || 0;
-      const socketHealthy = this.socket.isConnectionHealthy();
+      const occupancyValue = latestBucket.avg;
+      const socketHealthy = this.isSocketLive();
       if (!socketHealthy || this.liveOccupancy === 0) {
         this.liveOccupancy = occupancyValue;
         console.log('📊 Live Occupancy set from processOccupancyData:', {
@@ -698,10 +850,9 @@ export class DashboardComponent implements OnInit, OnDestroy {
     this.cdr.markForCheck();
   }
 
-  private processDemographicsData(data: any): void {
+  private processDemographicsData(data: DemographicsResponse): void {
     // Backend API structure: { siteId, fromUtc, toUtc, timezone, buckets: [{ utc, local, male, female }] }
-    // local format: "18/12/2025 12:00:00" -> extract "12:00"
-    const buckets = data?.buckets || [];
+    const buckets = data.buckets;
     
     if (buckets.length === 0) {
       this.demographicsChartData = [];
@@ -710,21 +861,17 @@ export class DashboardComponent implements OnInit, OnDestroy {
     }
     
     // Optimized: Direct field access from verified API structure
-    // Extract time once and reuse for both series (performance optimization)
-    const extractTime = (item: any): string => {
-      // Extract "HH:mm" from "DD/MM/YYYY HH:mm:ss" format (API always provides local)
-      const timeMatch = item.local?.match(/(\d{2}:\d{2}):\d{2}/);
-      return timeMatch ? timeMatch[1] : (item.local || String(item.utc || ''));
-    };
+    // Group once and reuse for both series (performance optimization) - visitor counts add up
+    const groups = this.groupBuckets(buckets);
     
-    const maleSeries = buckets.map((item: any) => ({
-      name: extractTime(item),
-      value: Number(item.male) || 0  // API always provides 'male' field
+    const maleSeries = groups.map(group => ({
+      name: group.label,
+      value: group.items.reduce((sum, item) => sum + item.male, 0)
     }));
     
-    const femaleSeries = buckets.map((item: any) => ({
-      name: extractTime(item),
-      value: Number(item.female) || 0  // API always provides 'female' field
+    const femaleSeries = groups.map(group => ({
+      name: group.label,
+      value: group.items.reduce((sum, item) => sum + item.female, 0)
     }));
     
     this.demographicsChartData = [
@@ -734,23 +881,22 @@ export class DashboardComponent implements OnInit, OnDestroy {
     this.cdr.markForCheck();
   }
 
-  private processDemographicsAnalysisData(data: any): void {
+  private processDemographicsAnalysisData(data: DemographicsResponse): void {
     // Backend API structure: { siteId, fromUtc, toUtc, timezone, buckets: [{ utc, local, male, female }], totalMale, totalFemale }
     // Prefer backend-provided totals, but fallback to aggregating from buckets if totals are missing
     // NOTE: This aggregation is temporary - backend should always provide totalMale and totalFemale
     let totalMale = 0;
     let totalFemale = 0;
     
-    if (data?.totalMale !== undefined && data?.totalFemale !== undefined) {
+    if (data.totalMale !== undefined && data.totalFemale !== undefined) {
       // Backend provides pre-calculated totals - use them directly
-      totalMale = Number(data.totalMale) || 0;
-      totalFemale = Number(data.totalFemale) || 0;
+      totalMale = data.totalMale;
+      totalFemale = data.totalFemale;
     } else {
       // Backend doesn't provide totals - aggregate from buckets as fallback (temporary until backend provides totals)
-      const buckets = data?.buckets || [];
-      for (const item of buckets) {
-        totalMale += Number(item.male) || 0;
-        totalFemale += Number(item.female) || 0;
+      for (const item of data.buckets) {
+        totalMale += item.male;
+        totalFemale += item.female;
       }
     }
     
@@ -769,70 +915,53 @@ export class DashboardComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Format UTC timestamp to time string (HH:mm format)
-   * Used as fallback when local field is not available
+   * Group buckets into chart points for the current period (hourly or daily)
    */
-  private formatTime(timestamp: number | string): string {
-    if (!timestamp && timestamp !== 0) return '';
-    
-    try {
-      const date = typeof timestamp === 'number' 
-        ? (timestamp < 10000000000 ? new Date(timestamp * 1000) : new Date(timestamp))
-        : new Date(timestamp);
-      
-      if (isNaN(date.getTime())) return '';
-      
-      return date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
-    } catch {
-      return '';
+  private groupBuckets<T extends { utc: number }>(buckets: T[]) {
+    return this.dateRange.groupBuckets(this.auth.getSiteId(), buckets, this.currentRange || this.resolveRange());
+  }
+
+  /**
+   * Register a timezone reported by an analytics response
+   * If it was unknown so far, the current window was resolved in the viewer's zone - reload once
+   */
+  private adoptSiteTimezone(timeZone: string): void {
+    const siteId = this.auth.getSiteId();
+    if (!siteId || this.timezone.getSiteTimeZone(siteId)) {
+      return;
+    }
+    const zoneBefore = this.timezone.siteZone(siteId);
+    this.timezone.registerSiteTimezone(siteId, timeZone);
+    if (this.timezone.siteZone(siteId) !== zoneBefore) {
+      this.followSiteToday();
+      this.updateDateDisplayText();
+      this.loadDashboardData();
     }
   }
 
+  // Live occupancy from the socket takes precedence over the latest analytics bucket
+  private isSocketLive(): boolean {
+    return this.socket.connectionState.status === 'connected';
+  }
+
   private setupSocketListeners(): void {
     // Debounce live occupancy updates to prevent excessive re-renders
     // Note: Event name is 'live_occupancy' (underscore), not 'live-occupancy' (hyphen)
     const liveOccupancySub = this.socket.listen('live_occupancy').pipe(
+      // Normalized by SocketService (socket-contract.ts) - only the count matters here
+      map(event => event.occupancy),
       debounceTime(200), // Increased debounce to reduce re-renders
       distinctUntilChanged()
     ).subscribe({
-      next: (data: any) => {
-        // Handle different data formats: number, object with siteOccupancy property, etc.
-        let occupancyValue = 0;
-        
-        if (typeof data === 'number') {
-          occupancyValue = data;
-        } else if (data === null || data === undefined) {
-          occupancyValue = 0;
-        } else if (typeof data === 'string') {
-          // Try to parse string as number
-          occupancyValue = parseFloat(data) || 0;
-        } else if (data && typeof data === 'object') {
-          // Handle array format: [{siteOccupancy: 123}] or object format: {siteOccupancy: 123}
-          const dataValue = Array.isArray(data) ? data[0] : data;
-          
-          // Try multiple possible property names (siteOccupancy is the actual property name from the API)
-          occupancyValue = Number(
-            dataValue?.siteOccupancy ||  // This is the actual property name!
-            dataValue?.count || 
-            dataValue?.occupancy || 
-            dataValue?.value || 
-            dataValue?.liveOccupancy || 
-            dataValue?.avg ||
-            dataValue?.current ||
-            dataValue?.total ||
-            dataValue?.number ||
-            (typeof dataValue === 'number' ? dataValue : 0)
-          );
-        }
-        
-        // Only update if we got a valid number AND selected date is today
+      next: (occupancyValue) => {
+        // Only update if selected date is today
         // For past or future dates, live occupancy should remain 0
         // Backend should provide rounded occupancy value - use it directly
-        if (!isNaN(occupancyValue) && occupancyValue >= 0 && this.isSelectedDateToday()) {
+        if (this.isSelectedDateToday()) {
           this.liveOccupancy = occupancyValue; // Backend should provide rounded value
           this.calculateLiveOccupancyChange();
           this.cdr.markForCheck();
-        } else if (!this.isSelectedDateToday()) {
+        } else {
           // Ensure live occupancy is 0 for past/future dates
           this.liveOccupancy = 0;
           this.liveOccupancyChange = null;
@@ -852,9 +981,28 @@ export class DashboardComponent implements OnInit, OnDestroy {
     });
     this.socketSubscriptions.push(liveOccupancySub);
 
+    // Today's footfall - pushed by the REST polling fallback (LivePollingService) while the socket is down
+    const liveFootfallSub = this.socket.listen('live_footfall').subscribe(event => {
+      // Other sites' events never get here (SocketService filters by site)
+      const range = this.resolveRange();
+      if (!this.timezone.isToday(this.auth.getSiteId(), range.end)) {
+        return;
+      }
+      if (event.fromUtc === range.fromUtc) {
+        // Same window (the day view of today) - use the count as is
+        this.showRefreshedFootfall(event.footfall);
+      } else if (!this.footfallRefreshPending) {
+        // Longer period ending today - fetch its own total
+        this.footfallRefreshPending = true;
+        this.footfallRefreshTrigger$.next();
+      }
+    });
+    this.socketSubscriptions.push(liveFootfallSub);
+
+    // Entry / exit alerts change the footfall count (AlertIngestionService records the alerts themselves)
     const alertSub = this.socket.listen('alert').subscribe({
-      next: (alertData: any) => {
-        this.handleAlert(alertData);
+      next: (event) => {
+        this.handleEntryExit(event);
       },
       error: (err) => {
         const errorInfo = {
@@ -870,84 +1018,10 @@ export class DashboardComponent implements OnInit, OnDestroy {
     this.socketSubscriptions.push(alertSub);
   }
 
-  private handleAlert(alertData: any): void {
-    // Check direction field first (e.g., "zone-exit", "zone-entry")
-    const direction = alertData.direction || '';
-    // Also check actionType as fallback
-    const actionTypeRaw = alertData.actionType || alertData.type || alertData.action || alertData.eventType || alertData.event || '';
-    const actionType = actionTypeRaw ? actionTypeRaw.toString().toLowerCase().trim() : '';
-    
-    // Use zone name if available, otherwise zone ID, otherwise fallback
-    const zone = alertData.zoneName || alertData.zone || alertData.zoneId || 'Unknown Zone';
-    // Use site name if available, otherwise site ID, otherwise fallback
-    const site = alertData.siteName || alertData.site || alertData.siteId || 'Unknown Site';
-    // Use person name if available
-    const personName = alertData.personName || alertData.name || '';
-    const severity = alertData.severity || alertData.level || 'info';
-    const timestamp = alertData.ts || alertData.timestamp || Date.now();
-
-    // Determine if it's entry or exit from direction field (e.g., "zone-exit", "zone-entry")
-    const directionLower = direction.toString().toLowerCase();
-    const isEntry = directionLower.includes('entry') || directionLower.includes('enter') || 
-                    actionType === 'entry' || actionType === 'enter' || actionType === 'in' || 
-                    actionType.includes('entry') || actionType.includes('enter');
-    const isExit = directionLower.includes('exit') || directionLower.includes('leave') || 
-                   actionType === 'exit' || actionType === 'leave' || actionType === 'out' || 
-                   actionType.includes('exit') || actionType.includes('leave');
-
-    // Build a more readable message
-    let message = '';
-    if (personName) {
-      if (isEntry) {
-        message = `${personName} entered ${zone}`;
-      } else if (isExit) {
-        message = `${personName} exited ${zone}`;
-      } else {
-        // Default to exit if we can't determine
-        message = `${personName} exited ${zone}`;
-      }
-    } else {
-      // No person name, use action type and zone
-      if (isEntry) {
-        message = `ENTRY: ${zone}`;
-      } else if (isExit) {
-        message = `EXIT: ${zone}`;
-      } else {
-        message = zone;
-      }
-      if (site && site !== 'Unknown Site' && !site.includes('-') && !site.match(/^[0-9a-f]{8}-/i)) {
-        message += ` (${site})`;
-      }
-    }
-
-    // Store normalized actionType for use in notification bell
-    const normalizedActionType = isEntry ? 'entry' : 'exit';
-
-    // Extract siteId from alert data or use current site ID
-    const siteId = alertData.siteId || alertData.site || this.auth.getSiteId() || null;
-
-    const alert: Alert = {
-      actionType: normalizedActionType,
-      zone,
-      site,
-      siteId: siteId || undefined,
-      severity,
-      timestamp,
-      message: message,
-      raw: alertData
-    };
-
-    // Backend handles all filtering (by date, site, etc.)
-    // Just add all alerts that backend sends us
-    this.notificationService.addAlert(alert);
-
-    if (severity === 'critical') {
-      console.warn('⚠️ Critical alert received:', alert.message);
-    }
-
+  private handleEntryExit(event: AlertEvent): void {
     // OPTIMIZATION: Use RxJS Subject for better debouncing and request cancellation
     // Debounce footfall refresh to prevent excessive API calls
-    if (actionType === 'entry' || actionType === 'exit') {
+    if (event.direction) {
       if (!this.footfallRefreshPending) {
         this.footfallRefreshPending = true;
         // Trigger the debounced refresh
@@ -958,130 +1032,199 @@ export class DashboardComponent implements OnInit, OnDestroy {
 
 
   /**
-   * Load yesterday's data for comparison calculations
+   * Load the baseline's footfall and dwell time for the comparison cards
+   * Trailing averages fetch several periods and average them
    */
-  private loadYesterdayComparison(fromUtc: number, toUtc: number): void {
-    // Calculate yesterday's date range (same time period, but yesterday)
-    const dayDiff = 24 * 60 * 60 * 1000; // 1 day in milliseconds
-    const yesterdayFromUtc = fromUtc - dayDiff;
-    const yesterdayToUtc = toUtc - dayDiff;
+  private loadBaselineComparison(range: DateRange): void {
+    this.baselineComparisonSubscription?.unsubscribe();
+    const samples = this.baselineSamples(range);
     
     // Store current site ID to verify we're still on the same site when response arrives
     const currentSiteId = this.auth.getSiteId();
     
-    // Fetch yesterday's footfall
-    const footfallSub = this.api.getFootfall(yesterdayFromUtc, yesterdayToUtc).subscribe({
-      next: (res) => {
+    if (samples.length === 0) {
+      // Custom baseline without a date yet - nothing to compare against
+      this.previousFootfall = 0;
+      this.previousDwellTime = 0;
+      this.footfallChange = null;
+      this.dwellTimeChange = null;
+      this.cdr.markForCheck();
+      return;
+    }
+    
+    // Failed requests resolve to null (request policy fallback) and are left out of the average
+    const requests = samples.map(sample => {
+      const key = `${currentSiteId}|${sample.fromUtc}|${sample.toUtc}`;
+      const cached = this.baselineSampleCache.get(key);
+      if (cached) {
+        return of(cached);
+      }
+      return forkJoin({
+        footfall: this.api.getFootfall(sample.fromUtc, sample.toUtc),
+        dwell: this.api.getDwell(sample.fromUtc, sample.toUtc)
+      }).pipe(
+        tap(result => {
+          // Whole past samples can't change; samples clipped to the time of day move with it
+          if (sample.toUtc === sample.fullToUtc && result.footfall && result.dwell) {
+            this.baselineSampleCache.set(key, result);
+          }
+        })
+      );
+    });
+    
+    this.baselineComparisonSubscription = forkJoin(requests).subscribe({
+      next: (results) => {
         // Verify we're still on the same site (prevent race conditions)
         if (this.auth.getSiteId() !== currentSiteId) {
           return; // Site changed, ignore this response
         }
         
-        if (res && res.footfall !== undefined && res.footfall !== null) {
-          this.previousFootfall = res.footfall;
-          // Recalculate with current values (in case they changed)
-          this.calculateFootfallChange();
-        } else {
-          // No data for yesterday - hide percentage
-          this.previousFootfall = 0;
-          this.footfallChange = null;
-        }
+        this.baselineLoadedAt = Date.now();
+        const footfalls = results.map(r => r.footfall).filter(res => res !== null).map(res => res!.footfall);
+        this.previousFootfall = footfalls.length > 0 ? footfalls.reduce((a, b) => a + b, 0) / footfalls.length : 0;
+        this.calculateFootfallChange();
+        
+        // Average dwell weighted by the number of records behind each sample
+        const dwells = results.map(r => r.dwell).filter(res => res !== null).map(res => res!);
+        const totalRecords = dwells.reduce((sum, res) => sum + res.dwellRecords, 0);
+        this.previousDwellTime = totalRecords > 0
+          ? dwells.reduce((sum, res) => sum + res.avgDwellMinutes * res.dwellRecords, 0) / totalRecords
+          : (dwells.length > 0 ? dwells.reduce((sum, res) => sum + res.avgDwellMinutes, 0) / dwells.length : 0);
+        this.calculateDwellTimeChange();
+        
         this.cdr.markForCheck();
       },
       error: () => {
         // Only update if still on same site
         if (this.auth.getSiteId() === currentSiteId) {
           this.previousFootfall = 0;
+          this.previousDwellTime = 0;
           this.footfallChange = null;
+          this.dwellTimeChange = null;
           this.cdr.markForCheck();
         }
       }
     });
+    this.httpSubscriptions.push(this.baselineComparisonSubscription);
+  }
+  
+  /**
+   * Load the baseline's occupancy
+   * - Full baseline period is overlaid on the occupancy chart (shifted onto the selected period's timeline)
+   * - The bucket at the same time of day is the reference for the live occupancy card
+   */
+  private loadBaselineOccupancy(range: DateRange): void {
+    this.baselineOccupancySubscription?.unsubscribe();
+    const samples = this.baselineSamples(range);
+    const currentSiteId = this.auth.getSiteId();
+    const baselineName = this.baselineOptionLabel();
     
-    // Fetch yesterday's dwell time
-    const dwellSub = this.api.getDwell(yesterdayFromUtc, yesterdayToUtc).subscribe({
-      next: (res) => {
+    if (samples.length === 0) {
+      this.previousLiveOccupancy = 0;
+      this.liveOccupancyChange = null;
+      this.baselineSeries = [];
+      this.updateOccupancyChart();
+      this.cdr.markForCheck();
+      return;
+    }
+    
+    this.baselineOccupancySubscription = forkJoin(
+      samples.map(sample => this.api.getOccupancy(sample.fromUtc, sample.fullToUtc))
+    ).subscribe({
+      next: (results) => {
         // Verify we're still on the same site (prevent race conditions)
         if (this.auth.getSiteId() !== currentSiteId) {
           return; // Site changed, ignore this response
         }
         
-        if (res && res.avgDwellMinutes !== undefined && res.avgDwellMinutes !== null) {
-          this.previousDwellTime = res.avgDwellMinutes;
-          // Recalculate with current values (in case they changed)
-          this.calculateDwellTimeChange();
-        } else {
-          // No data for yesterday - hide percentage
-          this.previousDwellTime = 0;
-          this.dwellTimeChange = null;
-        }
+        const shifted: { utc: number; avg: number }[] = [];
+        const sameTimeValues: number[] = [];
+        results.forEach((res, i) => {
+          if (!res || res.buckets.length === 0) {
+            return;
+          }
+          const sample = samples[i];
+          let sameTime: number | null = null;
+          for (const bucket of res.buckets) {
+            const utcMs = bucket.utc < 10000000000 ? bucket.utc * 1000 : bucket.utc;
+            shifted.push({ utc: utcMs + sample.shiftMs, avg: bucket.avg });
+            if (utcMs <= sample.toUtc) {
+              sameTime = bucket.avg; // Latest bucket up to the same time of day
+            }
+          }
+          if (sameTime !== null) {
+            sameTimeValues.push(sameTime);
+          }
+        });
+        
+        this.previousLiveOccupancy = sameTimeValues.length > 0
+          ? sameTimeValues.reduce((a, b) => a + b, 0) / sameTimeValues.length
+          : 0;
+        this.calculateLiveOccupancyChange();
+        
+        // Buckets of all samples share the selected period's timeline - grouping averages them
+        this.baselineLegendLabel = baselineName;
+        this.baselineSeries = this.averageOccupancy(shifted);
+        this.updateOccupancyChart();
         this.cdr.markForCheck();
       },
       error: () => {
         // Only update if still on same site
         if (this.auth.getSiteId() === currentSiteId) {
-          this.previousDwellTime = 0;
-          this.dwellTimeChange = null;
+          this.previousLiveOccupancy = 0;
+          this.liveOccupancyChange = null;
+          this.baselineSeries = [];
+          this.updateOccupancyChart();
           this.cdr.markForCheck();
         }
       }
     });
-    
-    this.httpSubscriptions.push(footfallSub, dwellSub);
+    this.httpSubscriptions.push(this.baselineOccupancySubscription);
+  }
+  
+  private baselineSamples(range: DateRange): BaselineSample[] {
+    return this.baselines.resolveSamples(this.auth.getSiteId(), range, this.comparisonBaseline, this.customBaselineDate);
+  }
+  
+  // Capitalized baseline wording for the chart legend, e.g. "Same weekday last week"
+  private baselineOptionLabel(): string {
+    const label = this.comparisonLabel || 'Baseline';
+    return label.charAt(0).toUpperCase() + label.slice(1);
   }
   
   /**
-   * Load yesterday's occupancy for live occupancy comparison
+   * Chart points for occupancy buckets: average per hour/day group of the current period
    */
-  private loadYesterdayOccupancy(fromUtc: number, toUtc: number): void {
-    // For live occupancy, compare current value to same time yesterday
-    const now = Date.now();
-    const dayDiff = 24 * 60 * 60 * 1000;
-    const yesterdaySameTime = now - dayDiff;
-    
-    // Calculate yesterday's date range
-    const yesterdayFromUtc = fromUtc - dayDiff;
-    const yesterdayToUtc = yesterdaySameTime; // Up to same time yesterday
-    
-    // Store current site ID to verify we're still on the same site when response arrives
-    const currentSiteId = this.auth.getSiteId();
-    
-    // Only fetch if we have a valid range
-    if (yesterdayToUtc > yesterdayFromUtc) {
-      const occupancySub = this.api.getOccupancy(yesterdayFromUtc, yesterdayToUtc).subscribe({
-        next: (res) => {
-          // Verify we're still on the same site (prevent race conditions)
-          if (this.auth.getSiteId() !== currentSiteId) {
-            return; // Site changed, ignore this response
-          }
-          
-          if (res && res.buckets && res.buckets.length > 0) {
-            // Get the bucket closest to the same time yesterday
-            const latestBucket = res.buckets[res.buckets.length - 1];
-            this.previousLiveOccupancy = Number(latestBucket.avg) || 0;
-            // Recalculate with current value (in case it changed)
-            this.calculateLiveOccupancyChange();
-          } else {
-            this.previousLiveOccupancy = 0;
-            this.liveOccupancyChange = null;
-            this.cdr.markForCheck();
-          }
-        },
-        error: () => {
-          // Only update if still on same site
-          if (this.auth.getSiteId() === currentSiteId) {
-            this.previousLiveOccupancy = 0;
-            this.liveOccupancyChange = null;
-            this.cdr.markForCheck();
-          }
-        }
-      });
-      
-      this.httpSubscriptions.push(occupancySub);
-    } else {
-      this.previousLiveOccupancy = 0;
-      this.liveOccupancyChange = null;
+  private averageOccupancy(buckets: { utc: number; avg: number }[]): { name: string; value: number }[] {
+    return this.groupBuckets(buckets).map(group => ({
+      name: group.label,
+      value: roundOneDecimal(group.items.reduce((sum, item) => sum + item.avg, 0) / group.items.length)
+    }));
+  }
+  
+  /**
+   * Combine the selected period and the baseline overlay into the occupancy chart
+   */
+  private updateOccupancyChart(): void {
+    if (this.occupancySeries.length === 0) {
+      this.occupancyChartData = [];
+      return;
+    }
+    const chartData = [{ name: 'Occupancy', series: this.occupancySeries }];
+    this.occupancyChartColors = [{ name: 'Occupancy', value: '#647c8a' }];
+    if (this.baselineSeries.length > 0 && this.baselineLegendLabel) {
+      // Baseline goes first: it usually covers the whole day, which fixes the x-axis order
+      chartData.unshift({ name: this.baselineLegendLabel, series: this.baselineSeries });
+      this.occupancyChartColors.push({ name: this.baselineLegendLabel, value: '#cbd5e1' });
     }
+    this.occupancyChartData = chartData;
+  }
+  
+  private clearOccupancyChart(): void {
+    this.occupancySeries = [];
+    this.baselineSeries = [];
+    this.baselineLegendLabel = '';
+    this.occupancyChartData = [];
   }
   
   /**
@@ -1149,6 +1292,8 @@ export class DashboardComponent implements OnInit, OnDestroy {
 
   onDateChange(date: Date | null): void {
     if (date) {
+      // Picking a single date switches back to the day view
+      this.rangePreset = 'day';
       // Normalize date to remove time component - we only care about the date
       // Date picker returns date in local time, so use local date methods
       // Then convert to UTC for consistent storage and comparison
@@ -1159,46 +1304,199 @@ export class DashboardComponent implements OnInit, OnDestroy {
         0, 0, 0, 0
       ));
       this.selectedDate = normalizedDate;
+      this.pickerDate = date;
+      // Picking today again means "follow today"; any other day stays pinned
+      this.userPickedDate = !this.timezone.isToday(this.auth.getSiteId(), this.selectedCalendarDate());
       
-      // Reset live occupancy when date changes - will be set correctly in loadDashboardData
-      this.liveOccupancy = 0;
-      // Update date display text immediately
-      this.updateDateDisplayText();
-      // Reset comparison data
-      this.liveOccupancyChange = null;
-      this.footfallChange = null;
-      this.dwellTimeChange = null;
-      this.previousFootfall = 0;
-      this.previousDwellTime = 0;
-      this.previousLiveOccupancy = 0;
-      // Backend handles notification filtering by date, no need to update notification service
-      // Date change logged only for debugging - removed to reduce console noise
-      
-      // Recalculate live marker for new date
-      this.calculateLiveMarkerPosition();
-      if (this.isSelectedDateToday()) {
-        this.startLiveMarkerUpdates();
-      } else {
-        this.stopLiveMarkerUpdates();
-      }
-      
-      this.loadDashboardData();
-      this.cdr.markForCheck();
+      this.applyPeriodChange();
+    }
+  }
+
+  /**
+   * Switch to a preset period ('custom' is applied once the range picker has both ends)
+   */
+  onRangePresetChange(preset: DateRangePreset): void {
+    if (preset === this.rangePreset || preset === 'custom') {
+      return;
+    }
+    this.rangePreset = preset;
+    this.applyPeriodChange();
+  }
+
+  /**
+   * Range picker emits the start first - keep it until the end date arrives
+   */
+  onCustomRangeStart(start: Date | null): void {
+    this.pendingRangeStart = start;
+  }
+
+  /**
+   * Range picker has a start and end date - show that custom period
+   */
+  onCustomRangeEnd(end: Date | null): void {
+    const start = this.pendingRangeStart;
+    if (!start || !end) {
+      return;
+    }
+    this.customPickerStart = start;
+    this.customPickerEnd = end;
+    // Picker dates are local midnight - their local components are the calendar days
+    this.customRange = {
+      start: { year: start.getFullYear(), month: start.getMonth(), day: start.getDate() },
+      end: { year: end.getFullYear(), month: end.getMonth(), day: end.getDate() }
+    };
+    this.rangePreset = 'custom';
+    this.applyPeriodChange();
+  }
+
+  /**
+   * Comparison selector changed - 'custom' waits for a date from the baseline picker
+   */
+  onBaselineChange(baseline: ComparisonBaseline, picker: { open(): void }): void {
+    this.comparisonBaseline = baseline;
+    this.baselines.saveBaseline(baseline);
+    if (baseline === 'custom') {
+      picker.open();
+    }
+    this.reloadBaseline();
+  }
+
+  onBaselineDateChange(date: Date | null): void {
+    if (!date) {
+      return;
+    }
+    this.baselinePickerDate = date;
+    this.customBaselineDate = { year: date.getFullYear(), month: date.getMonth(), day: date.getDate() };
+    this.comparisonBaseline = 'custom';
+    this.reloadBaseline();
+  }
+
+  /**
+   * Re-fetch only the baseline (cards + overlay) for the period already on screen
+   */
+  private reloadBaseline(): void {
+    this.liveOccupancyChange = null;
+    this.footfallChange = null;
+    this.dwellTimeChange = null;
+    this.baselineSeries = [];
+    this.baselineLegendLabel = '';
+    this.updateDateDisplayText();
+    this.updateOccupancyChart();
+    const range = this.currentRange || this.resolveRange();
+    this.loadBaselineComparison(range);
+    if (this.occupancySeries.length > 0) {
+      this.loadBaselineOccupancy(range);
+    }
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Reset period-dependent state and reload after the selected date or range changed
+   */
+  private applyPeriodChange(): void {
+    // Reset live occupancy when date changes - will be set correctly in loadDashboardData
+    this.liveOccupancy = 0;
+    // Update date display text immediately
+    this.updateDateDisplayText();
+    // Reset comparison data
+    this.liveOccupancyChange = null;
+    this.footfallChange = null;
+    this.dwellTimeChange = null;
+    this.previousFootfall = 0;
+    this.previousDwellTime = 0;
+    this.previousLiveOccupancy = 0;
+    // Backend handles notification filtering by date, no need to update notification service
+    // Date change logged only for debugging - removed to reduce console noise
+    
+    // Recalculate live marker for new date
+    this.calculateLiveMarkerPosition();
+    if (this.isSelectedDateToday()) {
+      this.startLiveMarkerUpdates();
+    } else {
+      this.stopLiveMarkerUpdates();
+    }
+    
+    this.syncPeriodToUrl();
+    this.loadDashboardData();
+    this.cdr.markForCheck();
+  }
+
+  /**
+   * Selected period from the URL, so bookmarks and links restored after login open the same view
+   * ?date=YYYY-MM-DD pins the day, ?range=<preset> picks the period, ?from=&to= a custom range
+   */
+  private restorePeriodFromUrl(): void {
+    const params = this.route.snapshot.queryParamMap;
+    const date = parseIsoDate(params.get('date'));
+    if (date) {
+      this.selectedDate = new Date(Date.UTC(date.year, date.month, date.day, 0, 0, 0, 0));
+      this.pickerDate = new Date(date.year, date.month, date.day);
+      this.userPickedDate = true;
+    }
+    const preset = params.get('range') as DateRangePreset | null;
+    const from = parseIsoDate(params.get('from'));
+    const to = parseIsoDate(params.get('to'));
+    if (preset === 'custom' && from && to && formatIsoDate(from) <= formatIsoDate(to)) {
+      this.customRange = { start: from, end: to };
+      this.customPickerStart = new Date(from.year, from.month, from.day);
+      this.customPickerEnd = new Date(to.year, to.month, to.day);
+      this.rangePreset = 'custom';
+    } else if (preset && preset !== 'custom' && this.rangePresets.some(option => option.value === preset)) {
+      this.rangePreset = preset;
     }
   }
 
+  /**
+   * Mirror the selected period into the URL (replacing history - each pick isn't a back-button step)
+   */
+  private syncPeriodToUrl(): void {
+    const custom = this.rangePreset === 'custom' ? this.customRange : null;
+    this.router.navigate([], {
+      queryParams: {
+        date: this.userPickedDate ? formatIsoDate(this.selectedCalendarDate()) : null,
+        range: this.rangePreset !== 'day' ? this.rangePreset : null,
+        from: custom ? formatIsoDate(custom.start) : null,
+        to: custom ? formatIsoDate(custom.end) : null
+      },
+      queryParamsHandling: 'merge',
+      replaceUrl: true
+    });
+  }
+
   isSelectedDateToday(): boolean {
-    // Compare dates using local date values (converted to UTC for comparison)
-    // This ensures consistency with how selectedDate is initialized
-    const today = new Date();
-    const todayUtc = new Date(Date.UTC(
-      today.getFullYear(),  // Use local year
-      today.getMonth(),     // Use local month
-      today.getDate(),      // Use local date
-      0, 0, 0, 0
-    ));
-    // selectedDate is already normalized to UTC midnight using local date values
-    return this.selectedDate.getTime() === todayUtc.getTime();
+    // "Today" is the current calendar day in the site's timezone
+    // For ranges this means the period ends today (live values still apply)
+    return this.timezone.isToday(this.auth.getSiteId(), this.resolveRange().end);
+  }
+
+  /**
+   * Selected period resolved against the current site and time
+   */
+  private resolveRange(): DateRange {
+    return this.dateRange.resolve(this.auth.getSiteId(), this.rangePreset, this.selectedCalendarDate(), this.customRange);
+  }
+
+  /**
+   * Calendar day represented by selectedDate (its UTC components)
+   */
+  private selectedCalendarDate(): CalendarDate {
+    return {
+      year: this.selectedDate.getUTCFullYear(),
+      month: this.selectedDate.getUTCMonth(),
+      day: this.selectedDate.getUTCDate()
+    };
+  }
+
+  /**
+   * Keep selectedDate on the site's "today" unless the user picked a date
+   */
+  private followSiteToday(): void {
+    if (this.userPickedDate) {
+      return;
+    }
+    const today = this.timezone.today(this.auth.getSiteId());
+    this.selectedDate = new Date(Date.UTC(today.year, today.month, today.day, 0, 0, 0, 0));
+    this.pickerDate = new Date(today.year, today.month, today.day);
   }
 
   private updateChartViewDimensions(): void {
@@ -1227,30 +1525,28 @@ export class DashboardComponent implements OnInit, OnDestroy {
   }
 
   private updateDateDisplayText(): void {
-    // Compare dates using local date values (converted to UTC for comparison)
-    // This ensures consistency with how selectedDate is initialized
-    const today = new Date();
-    const todayUtc = new Date(Date.UTC(
-      today.getFullYear(),  // Use local year
-      today.getMonth(),     // Use local month
-      today.getDate(),      // Use local date
-      0, 0, 0, 0
-    ));
-    
-    if (this.selectedDate.getTime() === todayUtc.getTime()) {
+    // Ranges are described by their preset (or start/end for custom ranges)
+    if (this.rangePreset !== 'day') {
+      this.dateDisplayText = this.dateRange.describe(this.resolveRange());
+      this.footfallTitle = 'Footfall';
+      this.comparisonLabel = this.baselines.describe(this.comparisonBaseline, this.resolveRange(), this.customBaselineDate);
+      return;
+    }
+    this.footfallTitle = this.isSelectedDateToday() ? "Today's Footfall" : 'Footfall';
+    this.comparisonLabel = this.baselines.describe(this.comparisonBaseline, this.resolveRange(), this.customBaselineDate);
+    
+    // "Today"/"Yesterday" are relative to the site's calendar day
+    const siteId = this.auth.getSiteId();
+    const selected = this.selectedCalendarDate();
+    const yesterday = addDays(this.timezone.today(siteId), -1);
+    
+    if (this.timezone.isToday(siteId, selected)) {
       this.dateDisplayText = 'Today';
+    } else if (selected.year === yesterday.year && selected.month === yesterday.month && selected.day === yesterday.day) {
+      this.dateDisplayText = 'Yesterday';
     } else {
-      const yesterdayUtc = new Date(Date.UTC(
-        today.getFullYear(),
-        today.getMonth(),
-        today.getDate() - 1,  // Subtract 1 from local date
-        0, 0, 0, 0
-      ));
-      if (this.selectedDate.getTime() === yesterdayUtc.getTime()) {
-        this.dateDisplayText = 'Yesterday';
-      } else {
-        this.dateDisplayText = this.selectedDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
-      }
+      // selectedDate's UTC components are the calendar day - format them as-is
+      this.dateDisplayText = this.selectedDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
     }
   }
 
@@ -1327,3 +1623,8 @@ export class DashboardComponent implements OnInit, OnDestroy {
   }
 
 }
+
+// Average occupancy of grouped buckets, rounded for chart tooltips
+function roundOneDecimal(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -3,10 +3,24 @@ import { CommonModule } from '@angular/common';
 import { MatIconModule } from '@angular/material/icon';
 import { ApiService } from '../../core/services/api.service';
 import { SiteService } from '../../core/services/site.service';
-import { SocketService } from '../../core/services/socket.service';
-import { NotificationService, Alert } from '../../core/services/notification.service';
+import { NotificationService } from '../../core/services/notification.service';
 import { AuthService } from '../../core/services/auth.service';
-import { Subscription } from 'rxjs';
+import { TimezoneService } from '../../core/services/timezone.service';
+import { NetworkStatusService } from '../../core/services/network-status.service';
+import { EntryExitRecord } from '../../core/models/api.models';
+import { Subscription, skip } from 'rxjs';
+
+// Entry-exit record with display values pre-computed for the template
+interface EntryRow extends EntryExitRecord {
+  _displayName: string;
+  _displayGender: string;
+  _isActive: boolean;
+  _entryDateTime: string;
+  _exitDateTime: string;
+  _dwellTime: string;
+  _avatarUrl: string;
+  _personId?: string;
+}
 
 @Component({
   standalone: true,
@@ -20,7 +34,7 @@ import { Subscription } from 'rxjs';
   changeDetection: ChangeDetectionStrategy.OnPush
 })
 export class EntriesComponent implements OnInit, OnDestroy {
-  records: any[] = [];
+  records: EntryRow[] = [];
   loading = true;
   currentPage = 1;
   pageSize = 50;
@@ -32,7 +46,8 @@ export class EntriesComponent implements OnInit, OnDestroy {
   
   private subscription?: Subscription;
   private siteChangeSubscription?: Subscription;
-  private socketSubscriptions: Subscription[] = [];
+  private timeModeSubscription?: Subscription;
+  private reconnectSubscription?: Subscription;
   // Cache for computed values
   private _pageNumbersCacheKey?: string;
   private dateTimeCache = new Map<string, string>();
@@ -40,9 +55,10 @@ export class EntriesComponent implements OnInit, OnDestroy {
   constructor(
     private api: ApiService,
     private siteService: SiteService,
-    private socket: SocketService,
     private notificationService: NotificationService,
     private auth: AuthService,
+    private timezone: TimezoneService,
+    private network: NetworkStatusService,
     private cdr: ChangeDetectorRef
   ) {}
 
@@ -53,9 +69,6 @@ export class EntriesComponent implements OnInit, OnDestroy {
       this.notificationService.setCurrentSiteId(currentSiteId);
     }
     
-    // Setup socket listeners for real-time alerts
-    this.setupSocketListeners();
-    
     this.loadEntries();
     
     // Listen for site changes and reload entries immediately
@@ -68,11 +81,24 @@ export class EntriesComponent implements OnInit, OnDestroy {
       this.currentPage = 1; // Reset to first page when site changes
       this.pageNumbers = []; // Reset page numbers
       this._pageNumbersCacheKey = undefined; // Reset cache
+      this.dateTimeCache.clear(); // New site may be in another timezone
       this.cdr.markForCheck();
       // Clear API caches and reload entries
       this.api.clearCaches();
       this.loadEntries();
     });
+    
+    // Re-format times when the user switches between site time and local time
+    this.timeModeSubscription = this.timezone.mode$.pipe(skip(1)).subscribe(() => {
+      this.dateTimeCache.clear();
+      this.records = this.records.map(record => this.preprocessRecord(record));
+      this.cdr.markForCheck();
+    });
+    
+    // Saved page was shown while offline - fetch the live one once the connection is back
+    this.reconnectSubscription = this.network.reconnected$.subscribe(() => {
+      this.loadEntries();
+    });
   }
 
   ngOnDestroy(): void {
@@ -82,13 +108,12 @@ export class EntriesComponent implements OnInit, OnDestroy {
     if (this.siteChangeSubscription) {
       this.siteChangeSubscription.unsubscribe();
     }
-    // Unsubscribe from socket listeners
-    this.socketSubscriptions.forEach(sub => {
-      if (sub && !sub.closed) {
-        sub.unsubscribe();
-      }
-    });
-    this.socketSubscriptions = [];
+    if (this.timeModeSubscription) {
+      this.timeModeSubscription.unsubscribe();
+    }
+    if (this.reconnectSubscription) {
+      this.reconnectSubscription.unsubscribe();
+    }
     this.dateTimeCache.clear();
   }
 
@@ -104,12 +129,9 @@ export class EntriesComponent implements OnInit, OnDestroy {
     this.subscription = this.api.getEntryExit(this.currentPage, this.pageSize).subscribe({
       next: (res) => {
         // Pre-process records to compute all formatting upfront (performance optimization)
-        const rawRecords = res.records || res.data || [];
-        this.records = rawRecords.map((record: any) => this.preprocessRecord(record));
-        
-        // Store API total records (backend must provide totalRecords or total)
-        const apiTotalRecords = res.totalRecords || res.total || 0;
-        this.totalRecords = apiTotalRecords;
+        // Response is already validated and normalized by the API contract layer
+        this.records = res.records.map(record => this.preprocessRecord(record));
+        this.totalRecords = res.totalRecords;
         this.totalPages = Math.ceil(this.totalRecords / this.pageSize); // Pagination calculation (UI only)
         
         // Update page numbers and pagination range
@@ -231,33 +253,27 @@ export class EntriesComponent implements OnInit, OnDestroy {
     }
 
     try {
-      // API provides entryLocal/exitLocal as "DD/MM/YYYY HH:mm:ss" format
-      // Parse this format directly for better performance
-      let date: Date;
-      if (typeof dateTime === 'string' && dateTime.includes('/')) {
-        // Parse "DD/MM/YYYY HH:mm:ss" format
-        const parts = dateTime.match(/(\d{2})\/(\d{2})\/(\d{4})\s+(\d{2}):(\d{2}):(\d{2})/);
+      // Format as "11:05 AM" to match design
+      let result = '-';
+      if (typeof dateTime === 'number') {
+        // UTC instant - shown in the site's timezone (or the viewer's, in local mode)
+        result = this.timezone.formatTime(this.auth.getSiteId(), dateTime, true);
+      } else {
+        // entryLocal/exitLocal: "DD/MM/YYYY HH:mm:ss", already site wall-clock time
+        // Take the time as-is - re-parsing it as a browser Date would shift it to the viewer's zone
+        const parts = dateTime.match(/\d{2}\/\d{2}\/\d{4}\s+(\d{2}):(\d{2}):\d{2}/);
         if (parts) {
-          const [, day, month, year, hour, minute] = parts;
-          date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day), parseInt(hour), parseInt(minute));
+          const hour = parseInt(parts[1]);
+          const suffix = hour < 12 ? 'AM' : 'PM';
+          const h12 = hour % 12 === 0 ? 12 : hour % 12;
+          result = `${h12.toString().padStart(2, '0')}:${parts[2]} ${suffix}`;
         } else {
-          date = new Date(dateTime);
+          const date = new Date(dateTime);
+          if (!isNaN(date.getTime())) {
+            result = this.timezone.formatTime(this.auth.getSiteId(), date.getTime(), true);
+          }
         }
-      } else {
-        date = new Date(typeof dateTime === 'string' ? dateTime : dateTime);
       }
-      
-      if (isNaN(date.getTime())) {
-        const result = '-';
-        this.dateTimeCache.set(cacheKey, result);
-        return result;
-      }
-      // Format as "11:05 AM" to match design
-      const result = date.toLocaleTimeString('en-US', {
-        hour: '2-digit',
-        minute: '2-digit',
-        hour12: true
-      });
       this.dateTimeCache.set(cacheKey, result);
       return result;
     } catch (err) {
@@ -277,14 +293,15 @@ export class EntriesComponent implements OnInit, OnDestroy {
     return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
   }
 
-  private preprocessRecord(record: any): any {
+  private preprocessRecord(record: EntryExitRecord): EntryRow {
     const personName = record.personName || 'N/A';
     const gender = record.gender || 'N/A';
     const isActive = !record.exitUtc && !record.exitLocal; // Active if no exit time
     
-    // Pre-compute formatted dates (backend provides entryLocal/exitLocal as strings)
-    const entryDateTime = this.formatDateTime(record.entryLocal || record.entryUtc);
-    const exitDateTime = isActive ? '--' : this.formatDateTime(record.exitLocal || record.exitUtc);
+    // Pre-compute formatted dates - prefer the UTC instant so the display zone is ours to choose,
+    // fall back to the backend's site-local string
+    const entryDateTime = this.formatDateTime(record.entryUtc || record.entryLocal);
+    const exitDateTime = isActive ? '--' : this.formatDateTime(record.exitUtc || record.exitLocal);
     
     // Pre-compute dwell time (backend provides dwellMinutes as number or null)
     const dwellTime = isActive ? '--' : this.formatDwellTime(record.dwellMinutes);
@@ -307,13 +324,13 @@ export class EntriesComponent implements OnInit, OnDestroy {
       _dwellTime: dwellTime,
       _avatarUrl: avatarUrl,
       // Keep original values for tracking
-      _personId: record.personId || record.id
+      _personId: record.personId
     };
   }
 
-  trackByRecordId(index: number, record: any): string {
+  trackByRecordId(index: number, record: EntryRow): string {
     // Use pre-computed person ID or fallback to index
-    return record._personId || record.personId || record.id || index.toString();
+    return record._personId || index.toString();
   }
 
   trackByPageNumber(index: number, page: number | string): number | string {
@@ -327,95 +344,4 @@ export class EntriesComponent implements OnInit, OnDestroy {
       img.src = 'https://i.pravatar.cc/150?img=1';
     }
   }
-
-  private setupSocketListeners(): void {
-    // Listen for alert events and process them
-    const alertSub = this.socket.listen('alert').subscribe({
-      next: (alertData: any) => {
-        this.handleAlert(alertData);
-      },
-      error: (err) => {
-        const errorInfo = {
-          type: err.name || 'Socket Error',
-          message: err.message,
-          error: err,
-          event: 'alert',
-          timestamp: new Date().toISOString()
-        };
-        console.error('❌ Entries: Socket subscription error (alert):', errorInfo);
-      }
-    });
-    this.socketSubscriptions.push(alertSub);
-  }
-
-  private handleAlert(alertData: any): void {
-    // Check direction field first (e.g., "zone-exit", "zone-entry")
-    const direction = alertData.direction || '';
-    // Also check actionType as fallback
-    const actionTypeRaw = alertData.actionType || alertData.type || alertData.action || alertData.eventType || alertData.event || '';
-    const actionType = actionTypeRaw ? actionTypeRaw.toString().toLowerCase().trim() : '';
-    
-    // Use zone name if available, otherwise zone ID, otherwise fallback
-    const zone = alertData.zoneName || alertData.zone || alertData.zoneId || 'Unknown Zone';
-    // Use site name if available, otherwise site ID, otherwise fallback
-    const site = alertData.siteName || alertData.site || alertData.siteId || 'Unknown Site';
-    // Use person name if available
-    const personName = alertData.personName || alertData.name || '';
-    const severity = alertData.severity || alertData.level || 'info';
-    const timestamp = alertData.ts || alertData.timestamp || Date.now();
-    // Get siteId if available for filtering
-    const siteId = alertData.siteId || alertData.site || null;
-
-    // Determine if it's entry or exit from direction field (e.g., "zone-exit", "zone-entry")
-    const directionLower = direction.toString().toLowerCase();
-    const isEntry = directionLower.includes('entry') || directionLower.includes('enter') || 
-                    actionType === 'entry' || actionType === 'enter' || actionType === 'in' || 
-                    actionType.includes('entry') || actionType.includes('enter');
-    const isExit = directionLower.includes('exit') || directionLower.includes('leave') || 
-                   actionType === 'exit' || actionType === 'leave' || actionType === 'out' || 
-                   actionType.includes('exit') || actionType.includes('leave');
-
-    // Build a more readable message
-    let message = '';
-    if (personName) {
-      if (isEntry) {
-        message = `${personName} entered ${zone}`;
-      } else if (isExit) {
-        message = `${personName} exited ${zone}`;
-      } else {
-        // Default to exit if we can't determine
-        message = `${personName} exited ${zone}`;
-      }
-    } else {
-      // No person name, use action type and zone
-      if (isEntry) {
-        message = `ENTRY: ${zone}`;
-      } else if (isExit) {
-        message = `EXIT: ${zone}`;
-      } else {
-        message = zone;
-      }
-      if (site && site !== 'Unknown Site' && !site.includes('-') && !site.match(/^[0-9a-f]{8}-/i)) {
-        message += ` (${site})`;
-      }
-    }
-
-    // Store normalized actionType for use in notification bell
-    const normalizedActionType = isEntry ? 'entry' : 'exit';
-
-    const alert: Alert = {
-      actionType: normalizedActionType,
-      zone,
-      site,
-      siteId: siteId || undefined,
-      severity,
-      timestamp,
-      message: message,
-      raw: alertData
-    };
-
-    // Backend handles all filtering (by date, site, etc.)
-    // Just add all alerts that backend sends us
-    this.notificationService.addAlert(alert);
-  }
 }
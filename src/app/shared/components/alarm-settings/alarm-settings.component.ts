@@ -0,0 +1,62 @@
+import { Component, OnInit, OnDestroy, ChangeDetectionStrategy, ChangeDetectorRef } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { MatIconModule } from '@angular/material/icon';
+import { Subscription } from 'rxjs';
+import { AlarmService, DesktopPermission } from '../../../core/services/alarm.service';
+import { AlarmSettings, AlarmSound } from '../../../core/config/alarm.config';
+import { AlertSeverity } from '../../../core/models/socket.models';
+
+/**
+ * Alarm settings (shown inside the bell dropdown): desktop notifications and sound per
+ * severity, volume, quiet hours and the critical repeat interval
+ * Every change is saved at once (AlarmService keeps them per browser)
+ */
+@Component({
+  selector: 'app-alarm-settings',
+  standalone: true,
+  imports: [CommonModule, FormsModule, MatIconModule],
+  templateUrl: './alarm-settings.component.html',
+  styleUrls: ['./alarm-settings.component.scss'],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class AlarmSettingsComponent implements OnInit, OnDestroy {
+  readonly severities: AlertSeverity[] = ['critical', 'warning', 'info'];
+  readonly sounds: AlarmSound[] = ['none', 'chime', 'beep', 'siren'];
+
+  settings!: AlarmSettings;
+  permission: DesktopPermission = 'default';
+  private subscription?: Subscription;
+
+  constructor(private alarms: AlarmService, private cdr: ChangeDetectorRef) {}
+
+  ngOnInit(): void {
+    this.permission = this.alarms.desktopPermission;
+    this.subscription = this.alarms.settings$.subscribe(settings => {
+      // Edited through ngModel - work on a copy
+      this.settings = structuredClone(settings);
+      this.cdr.markForCheck();
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.subscription?.unsubscribe();
+  }
+
+  get wantsDesktop(): boolean {
+    return this.severities.some(severity => this.settings.severities[severity].desktop);
+  }
+
+  save(): void {
+    this.alarms.updateSettings(structuredClone(this.settings));
+  }
+
+  test(severity: AlertSeverity): void {
+    this.alarms.testSound(this.settings.severities[severity].sound);
+  }
+
+  async enableDesktop(): Promise<void> {
+    this.permission = await this.alarms.requestDesktopPermission();
+    this.cdr.markForCheck();
+  }
+}
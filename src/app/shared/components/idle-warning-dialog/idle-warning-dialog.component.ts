@@ -0,0 +1,60 @@
+import { Component, OnInit, OnDestroy, ChangeDetectionStrategy, ChangeDetectorRef, EventEmitter, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatIconModule } from '@angular/material/icon';
+import { Subscription } from 'rxjs';
+import { IdleService } from '../../../core/services/idle.service';
+
+/**
+ * Countdown shown before an idle sign-out (IdleService)
+ * Watches only while it is on screen - the layout hosts it, so the login page never times out
+ */
+@Component({
+  selector: 'app-idle-warning-dialog',
+  standalone: true,
+  imports: [CommonModule, MatIconModule],
+  templateUrl: './idle-warning-dialog.component.html',
+  styleUrls: ['./idle-warning-dialog.component.scss'],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class IdleWarningDialogComponent implements OnInit, OnDestroy {
+  // Idle period ran out - the host signs the session out
+  @Output() timedOut = new EventEmitter<void>();
+
+  visible = false;
+  countdownText = '';
+  private subscriptions: Subscription[] = [];
+
+  constructor(private idle: IdleService, private cdr: ChangeDetectorRef) {}
+
+  ngOnInit(): void {
+    this.subscriptions.push(
+      this.idle.state$.subscribe(state => {
+        this.visible = state.warning;
+        this.countdownText = this.formatCountdown(state.remainingMs);
+        this.cdr.markForCheck();
+      }),
+      this.idle.timedOut$.subscribe(() => this.timedOut.emit())
+    );
+    this.idle.start();
+  }
+
+  ngOnDestroy(): void {
+    this.subscriptions.forEach(sub => sub.unsubscribe());
+    this.idle.stop();
+  }
+
+  stayActive(): void {
+    this.idle.stayActive();
+  }
+
+  signOutNow(): void {
+    this.idle.stop();
+    this.timedOut.emit();
+  }
+
+  // 0:45 style
+  private formatCountdown(remainingMs: number): string {
+    const seconds = Math.max(0, Math.ceil(remainingMs / 1000));
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  }
+}
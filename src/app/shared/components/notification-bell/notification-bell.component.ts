@@ -1,20 +1,25 @@
 import { Component, OnInit, OnDestroy, ChangeDetectionStrategy, ChangeDetectorRef } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { MatIconModule } from '@angular/material/icon';
-import { NotificationService, Alert } from '../../../core/services/notification.service';
-import { Subscription } from 'rxjs';
+import { RouterLink } from '@angular/router';
+import { NotificationService, Alert, AlertRecord, impersonalMessage } from '../../../core/services/notification.service';
+import { PermissionService } from '../../../core/services/permission.service';
+import { HasPermissionDirective } from '../../directives/has-permission.directive';
+import { AlarmSettingsComponent } from '../alarm-settings/alarm-settings.component';
+import { Subscription, merge } from 'rxjs';
 
 @Component({
   selector: 'app-notification-bell',
   standalone: true,
-  imports: [CommonModule, MatIconModule],
+  imports: [CommonModule, MatIconModule, RouterLink, HasPermissionDirective, AlarmSettingsComponent],
   templateUrl: './notification-bell.component.html',
   styleUrls: ['./notification-bell.component.scss'],
   changeDetection: ChangeDetectionStrategy.OnPush
 })
 export class NotificationBellComponent implements OnInit, OnDestroy {
   showDropdown = false;
-  alerts: (Alert & { _formattedDate?: string; _priority?: string; _displayText?: string })[] = [];
+  showSettings = false;
+  alerts: (AlertRecord & { _formattedDate?: string; _priority?: string; _displayText?: string; _acknowledgedText?: string })[] = [];
   unreadCount = 0;
   private subscription?: Subscription;
   // Cache for formatted dates to avoid recalculating on every change detection
@@ -22,33 +27,18 @@ export class NotificationBellComponent implements OnInit, OnDestroy {
 
   constructor(
     public notificationService: NotificationService,
+    private permissions: PermissionService,
     private cdr: ChangeDetectorRef
   ) {}
 
   ngOnInit(): void {
-    // Subscribe to alert changes (backend handles all filtering)
-    this.subscription = this.notificationService.alerts$.subscribe(() => {
-      const rawAlerts = this.notificationService.getAlerts();
-      this.alerts = rawAlerts.map(alert => ({
-        ...alert,
-        _formattedDate: this.formatAlertDate(alert.timestamp),
-        _priority: this.getPriorityLabel(alert.severity),
-        _displayText: this.formatDisplayText(alert)
-      }));
-      this.unreadCount = this.notificationService.getUnreadCount();
-      this.cdr.markForCheck();
+    // Subscribe to alert changes (backend handles all filtering); a refreshed token may carry another role
+    this.subscription = merge(this.notificationService.alerts$, this.permissions.changes$).subscribe(() => {
+      this.updateAlerts();
     });
     
     // Initialize with alerts and pre-process them
-    const rawAlerts = this.notificationService.getAlerts();
-    this.alerts = rawAlerts.map(alert => ({
-      ...alert,
-      _formattedDate: this.formatAlertDate(alert.timestamp),
-      _priority: this.getPriorityLabel(alert.severity),
-      _displayText: this.formatDisplayText(alert)
-    }));
-    this.unreadCount = this.notificationService.getUnreadCount();
-    this.cdr.markForCheck();
+    this.updateAlerts();
   }
 
   ngOnDestroy(): void {
@@ -60,14 +50,45 @@ export class NotificationBellComponent implements OnInit, OnDestroy {
 
   toggleDropdown(): void {
     this.showDropdown = !this.showDropdown;
+    this.showSettings = false;
     this.cdr.markForCheck();
   }
 
   closeDropdown(): void {
     this.showDropdown = false;
+    this.showSettings = false;
     this.cdr.markForCheck();
   }
 
+  toggleSettings(): void {
+    this.showSettings = !this.showSettings;
+    this.cdr.markForCheck();
+  }
+
+  // Opening an alert card counts as reading it
+  markRead(alert: AlertRecord): void {
+    if (!alert.read) {
+      this.notificationService.markRead(alert.id);
+    }
+  }
+
+  markAllRead(): void {
+    this.notificationService.markAllRead();
+  }
+
+  acknowledge(alert: AlertRecord, event: MouseEvent): void {
+    event.stopPropagation();
+    this.notificationService.acknowledge(alert.id);
+  }
+
+  // e.g. "Acknowledged by Jane Doe, March 03 2025 10:15"
+  formatAcknowledged(alert: AlertRecord): string {
+    if (!alert.acknowledgedAt) {
+      return '';
+    }
+    return `Acknowledged by ${alert.acknowledgedBy || 'Unknown user'}, ${this.formatAlertDate(alert.acknowledgedAt)}`;
+  }
+
   formatAlertDate(timestamp: number | string): string {
     const cacheKey = String(timestamp);
     const cached = this.dateCache.get(cacheKey);
@@ -118,7 +139,12 @@ export class NotificationBellComponent implements OnInit, OnDestroy {
     }
   }
 
-  formatDisplayText(alert: Alert): string {
+  formatDisplayText(alert: Alert, personal = true): string {
+    // Alert rules write their own message (see AlertRuleEvaluatorService)
+    if (alert.actionType === 'rule') {
+      return personal ? alert.message : impersonalMessage(alert);
+    }
+
     // Extract person name from message or raw data
     // Message format: "John Doe entered Tokyo Station" or "John Doe exited Tokyo Station"
     let personName = '';
@@ -143,8 +169,8 @@ export class NotificationBellComponent implements OnInit, OnDestroy {
     const isEntry = actionType === 'entry' || actionType === 'enter';
     const actionText = isEntry ? 'entered' : 'exited';
     
-    // Return formatted text: "Name entered" or "Name exited"
-    if (personName) {
+    // Return formatted text: "Name entered" or "Name exited" (names are personal data - entries.view only)
+    if (personName && personal) {
       return `${personName} ${actionText}`;
     } else {
       // Fallback if no name found
@@ -152,8 +178,21 @@ export class NotificationBellComponent implements OnInit, OnDestroy {
     }
   }
 
-  trackByAlertId(index: number, alert: Alert): string {
-    return alert.raw?.eventId || alert.timestamp?.toString() || index.toString();
+  private updateAlerts(): void {
+    const personal = this.permissions.has('entries.view');
+    this.alerts = this.notificationService.getAlerts().map(alert => ({
+      ...alert,
+      _formattedDate: this.formatAlertDate(alert.timestamp),
+      _priority: this.getPriorityLabel(alert.severity),
+      _displayText: this.formatDisplayText(alert, personal),
+      _acknowledgedText: this.formatAcknowledged(alert)
+    }));
+    this.unreadCount = this.notificationService.getUnreadCount();
+    this.cdr.markForCheck();
+  }
+
+  trackByAlertId(index: number, alert: AlertRecord): string {
+    return alert.id;
   }
 }
 
@@ -0,0 +1,83 @@
+import { Component, OnInit, OnDestroy, ChangeDetectionStrategy, ChangeDetectorRef } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
+import { MatIconModule } from '@angular/material/icon';
+import { Subscription } from 'rxjs';
+import { AuthService } from '../../../core/services/auth.service';
+import { ApiService } from '../../../core/services/api.service';
+import { SocketService } from '../../../core/services/socket.service';
+import { PersistentCacheService } from '../../../core/services/persistent-cache.service';
+import { CrossTabSyncService } from '../../../core/services/cross-tab-sync.service';
+import { clearCacheForSite } from '../../../core/interceptors/cache.interceptor';
+
+/**
+ * Modal shown when the session can't be renewed (AuthService.sessionExpired$)
+ * Signing in again returns to the page the user was on
+ */
+@Component({
+  selector: 'app-session-expired-dialog',
+  standalone: true,
+  imports: [CommonModule, MatIconModule],
+  templateUrl: './session-expired-dialog.component.html',
+  styleUrls: ['./session-expired-dialog.component.scss'],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class SessionExpiredDialogComponent implements OnInit, OnDestroy {
+  visible = false;
+  private returnUrl = '/';
+  private subscription?: Subscription;
+  private tabSubscription?: Subscription;
+
+  constructor(
+    private auth: AuthService,
+    private api: ApiService,
+    private socket: SocketService,
+    private persistentCache: PersistentCacheService,
+    private tabSync: CrossTabSyncService,
+    private router: Router,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnInit(): void {
+    this.subscription = this.auth.sessionExpired$.subscribe(() => {
+      // Already on the login page - nothing to return to
+      if (this.router.url.startsWith('/login')) {
+        return;
+      }
+      this.returnUrl = this.router.url;
+      // Data fetched with the old session must not be shown to whoever signs in next
+      this.socket.disconnect();
+      this.api.clearCaches();
+      clearCacheForSite();
+      this.persistentCache.clear();
+      this.visible = true;
+      this.cdr.markForCheck();
+    });
+
+    // Another tab signed in again (pick the new session up without a second login)
+    // or signed out (the layout already headed to /login)
+    this.tabSubscription = this.tabSync.messages$.subscribe(message => {
+      if (!this.visible || (message.type !== 'login' && message.type !== 'logout')) {
+        return;
+      }
+      this.visible = false;
+      this.cdr.markForCheck();
+      if (message.type === 'login' && this.auth.isLoggedIn()) {
+        // Via /login so the page is rebuilt - its socket streams ended with the old session
+        this.router.navigateByUrl('/login', { skipLocationChange: true })
+          .then(() => this.router.navigateByUrl(this.returnUrl));
+      }
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.subscription?.unsubscribe();
+    this.tabSubscription?.unsubscribe();
+  }
+
+  signIn(): void {
+    this.visible = false;
+    this.cdr.markForCheck();
+    this.router.navigate(['/login'], { queryParams: { returnUrl: this.returnUrl } });
+  }
+}
@@ -0,0 +1,101 @@
+import { Component, OnInit, OnDestroy, ChangeDetectionStrategy, ChangeDetectorRef } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { MatIconModule } from '@angular/material/icon';
+import { Subscription } from 'rxjs';
+import { RecorderState, SocketRecorderService } from '../../../core/services/socket-recorder.service';
+import { REPLAY_SPEEDS, ReplaySpeed } from '../../../core/config/devtools.config';
+
+/**
+ * Floating developer panel: record live socket events, download them, and
+ * replay a recording at 1x/10x/100x (SocketRecorderService)
+ * Rendered by the layout only when isDevtoolsEnabled()
+ */
+@Component({
+  selector: 'app-socket-devtools',
+  standalone: true,
+  imports: [CommonModule, MatIconModule],
+  templateUrl: './socket-devtools.component.html',
+  styleUrls: ['./socket-devtools.component.scss'],
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class SocketDevtoolsComponent implements OnInit, OnDestroy {
+  readonly speeds = REPLAY_SPEEDS;
+
+  open = false;
+  speed: ReplaySpeed = 10;
+  retarget = true; // Replay onto the selected site
+  state: RecorderState = { mode: 'idle', recordedCount: 0, replayedCount: 0, replayTotal: 0 };
+  loadedFileName = '';
+  error = '';
+  private subscription?: Subscription;
+
+  constructor(private recorder: SocketRecorderService, private cdr: ChangeDetectorRef) {}
+
+  ngOnInit(): void {
+    this.subscription = this.recorder.state$.subscribe(state => {
+      this.state = state;
+      this.cdr.markForCheck();
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.subscription?.unsubscribe();
+    // Don't keep recording or replaying into a page that's gone (logout)
+    this.recorder.stop();
+  }
+
+  get hasRecording(): boolean {
+    return this.recorder.hasRecording;
+  }
+
+  toggle(): void {
+    this.open = !this.open;
+  }
+
+  record(): void {
+    this.error = '';
+    this.loadedFileName = '';
+    this.recorder.startRecording();
+  }
+
+  stop(): void {
+    this.recorder.stop();
+  }
+
+  download(): void {
+    this.recorder.download();
+  }
+
+  replay(): void {
+    this.error = '';
+    this.recorder.replay(this.speed, this.retarget);
+  }
+
+  setSpeed(speed: ReplaySpeed): void {
+    this.speed = speed;
+  }
+
+  toggleRetarget(): void {
+    this.retarget = !this.retarget;
+  }
+
+  onFileSelected(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = ''; // Same file can be picked again
+    if (!file) {
+      return;
+    }
+    this.error = '';
+    this.recorder.load(file).then(
+      recording => {
+        this.loadedFileName = `${file.name} (${recording.events.length})`;
+        this.cdr.markForCheck();
+      },
+      err => {
+        this.error = err instanceof Error ? err.message : 'Could not read the file';
+        this.cdr.markForCheck();
+      }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { ChangeDetectorRef, Directive, Input, OnDestroy, OnInit, TemplateRef, ViewContainerRef } from '@angular/core';
+import { Subscription } from 'rxjs';
+import { PermissionService } from '../../core/services/permission.service';
+import { Permission } from '../../core/config/permissions.config';
+
+/**
+ * Renders its template only when the user holds the permission (all of them, for an array)
+ *
+ *   <a *appHasPermission="'entries.view'" routerLink="/entries">...</a>
+ *   <button *appHasPermission="'alerts.acknowledge'; else readOnly">...</button>
+ *
+ * Re-checked whenever the token changes (login, refresh, logout)
+ */
+@Directive({
+  selector: '[appHasPermission]',
+  standalone: true
+})
+export class HasPermissionDirective implements OnInit, OnDestroy {
+  private required: Permission[] = [];
+  private elseTemplate: TemplateRef<unknown> | null = null;
+  private shown: 'then' | 'else' | null = null;
+  private changesSubscription?: Subscription;
+
+  @Input() set appHasPermission(permission: Permission | Permission[]) {
+    this.required = Array.isArray(permission) ? permission : [permission];
+    this.update();
+  }
+
+  @Input() set appHasPermissionElse(template: TemplateRef<unknown> | null) {
+    this.elseTemplate = template;
+    // Force a re-render so a newly bound else template shows up
+    this.shown = null;
+    this.update();
+  }
+
+  constructor(
+    private template: TemplateRef<unknown>,
+    private viewContainer: ViewContainerRef,
+    private permissions: PermissionService,
+    private cdr: ChangeDetectorRef
+  ) {}
+
+  ngOnInit(): void {
+    this.changesSubscription = this.permissions.changes$.subscribe(() => {
+      this.update();
+      this.cdr.markForCheck();
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.changesSubscription?.unsubscribe();
+  }
+
+  private update(): void {
+    const next = this.permissions.hasAll(this.required) ? 'then' : 'else';
+    if (next === this.shown) {
+      return;
+    }
+    this.shown = next;
+    this.viewContainer.clear();
+    if (next === 'then') {
+      this.viewContainer.createEmbeddedView(this.template);
+    } else if (this.elseTemplate) {
+      this.viewContainer.createEmbeddedView(this.elseTemplate);
+    }
+  }
+}
@@ -0,0 +1,5 @@
+export const environment = {
+  production: false,
+  apiUrl: '',  // Relative URLs - requests never leave the browser in mock mode
+  mockBackend: true
+};
@@ -1,4 +1,5 @@
 export const environment = {
   production: true,
-  apiUrl: 'https://hiring-dev.internal.kloudspot.com'
+  apiUrl: 'https://hiring-dev.internal.kloudspot.com',
+  mockBackend: false
 };
@@ -1,4 +1,5 @@
 export const environment = {
   production: false,
-  apiUrl: 'https://hiring-dev.internal.kloudspot.com'  // API base URL (proxy handles CORS in development)
+  apiUrl: 'https://hiring-dev.internal.kloudspot.com',  // API base URL (proxy handles CORS in development)
+  mockBackend: false  // true = in-process fake API and socket (see core/config/mock-backend.config.ts)
 };